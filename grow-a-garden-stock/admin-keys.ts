@@ -0,0 +1,115 @@
+import {
+  ADMIN_SCOPES,
+  createAdminApiKey,
+  isAdminScope,
+  listAdminApiKeys,
+  revokeAdminApiKey,
+  rotateAdminApiKey
+} from './src/lib/admin-keys.js';
+import type { AdminScope, CreatedAdminApiKey } from './src/lib/admin-keys.js';
+
+// Manages the API keys for admin endpoints (see src/lib/admin-auth.ts).
+// Run from the app directory so it uses the same push-tokens.db as the server.
+//
+//   npm run admin-keys -- create <name> --scopes push_tokens:read,push_tokens:delete
+//   npm run admin-keys -- rotate <id>
+//   npm run admin-keys -- revoke <id>
+//   npm run admin-keys -- list
+
+const USAGE = [
+  'Usage: npm run admin-keys -- <command>',
+  '  create <name> --scopes <scope,...>   Create a key',
+  '  rotate <id>                          Replace a key with a new one, revoking the old key',
+  '  revoke <id>                          Revoke a key',
+  '  list                                 List keys',
+  `Scopes: ${ADMIN_SCOPES.join(', ')}`
+].join('\n');
+
+function fail(message: string): never {
+  console.error(`❌ ${message}`);
+  console.error(USAGE);
+  process.exit(1);
+}
+
+function parseId(value: string | undefined): number {
+  const id = parseInt(value || '');
+  if (isNaN(id)) {
+    fail('A numeric key id is required');
+  }
+  return id;
+}
+
+function parseScopes(value: string | undefined): AdminScope[] {
+  const scopes = (value || '').split(',').map(s => s.trim()).filter(Boolean);
+  if (scopes.length === 0) {
+    fail('--scopes is required');
+  }
+  const unknown = scopes.filter(scope => !isAdminScope(scope));
+  if (unknown.length > 0) {
+    fail(`Unknown scope(s): ${unknown.join(', ')}`);
+  }
+  return scopes as AdminScope[];
+}
+
+function printCreatedKey({ key, apiKey }: CreatedAdminApiKey) {
+  console.log(`   id:     ${apiKey.id}`);
+  console.log(`   name:   ${apiKey.name}`);
+  console.log(`   scopes: ${apiKey.scopes.join(', ')}`);
+  console.log(`   key:    ${key}`);
+  console.log('⚠️ The key is only shown once, store it somewhere safe.');
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+
+  switch (command) {
+    case 'create': {
+      const name = args[0];
+      if (!name || name.startsWith('--')) {
+        fail('A key name is required');
+      }
+      const scopesIndex = args.indexOf('--scopes');
+      const scopes = parseScopes(scopesIndex >= 0 ? args[scopesIndex + 1] : undefined);
+      const created = await createAdminApiKey(name, scopes);
+      console.log('🔑 Created admin API key');
+      printCreatedKey(created);
+      break;
+    }
+    case 'rotate': {
+      const id = parseId(args[0]);
+      const created = await rotateAdminApiKey(id);
+      console.log(`🔄 Rotated admin API key ${id}, the old key no longer works`);
+      printCreatedKey(created);
+      break;
+    }
+    case 'revoke': {
+      const id = parseId(args[0]);
+      await revokeAdminApiKey(id);
+      console.log(`🗑️ Revoked admin API key ${id}`);
+      break;
+    }
+    case 'list': {
+      const keys = await listAdminApiKeys();
+      if (keys.length === 0) {
+        console.log('No admin API keys yet');
+        break;
+      }
+      for (const key of keys) {
+        const status = key.revokedAt
+          ? `revoked ${key.revokedAt}${key.replacedBy !== null ? ` (replaced by ${key.replacedBy})` : ''}`
+          : 'active';
+        console.log(`${key.id}\t${key.name}\t${key.keyPrefix}...\t${key.scopes.join(',')}\tlast used ${key.lastUsedAt || 'never'}\t${status}`);
+      }
+      break;
+    }
+    default:
+      fail(command ? `Unknown command "${command}"` : 'A command is required');
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('❌', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
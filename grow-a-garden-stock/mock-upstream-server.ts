@@ -0,0 +1,267 @@
+import * as fs from 'fs';
+import type { IncomingMessage } from 'http';
+import { WebSocketServer, WebSocket } from 'ws';
+import { normalizeId } from './src/lib/item-id.js';
+
+// Local stand-in for the GrowAGardenPro and JStudio WebSockets, so the stock
+// manager can run offline and the reconnect paths can be exercised on purpose.
+//
+//   npm run mock-upstream -- [--port 4001] [--interval 30] [--script mock-script.json]
+//   GAGPRO_WS_URL=ws://localhost:4001/ JSTUDIO_WS_URL=ws://localhost:4001/growagarden npm run start-stock-manager
+//
+// Connections on /growagarden get JStudio payloads, every other path gets
+// GrowAGardenPro payloads. Both describe the same generated stock.
+
+type Feed = 'gagpro' | 'jstudio';
+
+// What happens on each tick. A script cycles through its steps, one per tick.
+//   stock     - generate a new restock and send it
+//   malformed - send a frame that is not valid JSON
+//   drop      - terminate the open connections
+//   refuse    - drop and reject new connections until the next step
+//   silence   - send nothing
+type MockAction = 'stock' | 'malformed' | 'drop' | 'refuse' | 'silence';
+
+interface MockStep {
+  action: MockAction;
+  target?: Feed; // Only affect one feed (default: both)
+}
+
+interface MockScript {
+  steps: MockStep[];
+  loop?: boolean; // Start over after the last step (default true), otherwise keep sending stock
+}
+
+interface MockStock {
+  seeds: Array<{ name: string; quantity: number }>;
+  gear: Array<{ name: string; quantity: number }>;
+  eggs: Array<{ name: string; quantity: number }>;
+  weather: { type: string; endsAt: number } | null;
+  generatedAt: number;
+}
+
+const MOCK_ACTIONS: MockAction[] = ['stock', 'malformed', 'drop', 'refuse', 'silence'];
+const JSTUDIO_PATH = '/growagarden';
+
+const MOCK_ITEMS = {
+  seeds: ['Carrot', 'Strawberry', 'Blueberry', 'Tomato', 'Watermelon', 'Grape', 'Beanstalk', 'Ember Lily'],
+  gear: ['Watering Can', 'Trowel', 'Basic Sprinkler', 'Advanced Sprinkler', 'Master Sprinkler'],
+  eggs: ['Common Egg', 'Uncommon Egg', 'Rare Egg', 'Bug Egg'],
+  weather: ['Rain', 'Thunderstorm', 'Frost']
+};
+
+function parseArgs(args: string[]) {
+  const options = { port: 4001, intervalSeconds: 30, scriptPath: null as string | null };
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--port') options.port = parseInt(args[++i]);
+    else if (args[i] === '--interval') options.intervalSeconds = parseFloat(args[++i]);
+    else if (args[i] === '--script') options.scriptPath = args[++i];
+  }
+  if (isNaN(options.port) || isNaN(options.intervalSeconds) || options.intervalSeconds <= 0) {
+    console.error('Usage: npm run mock-upstream -- [--port <port>] [--interval <seconds>] [--script <file.json>]');
+    process.exit(1);
+  }
+  return options;
+}
+
+function loadScript(scriptPath: string | null): MockScript {
+  if (!scriptPath) {
+    return { steps: [{ action: 'stock' }] };
+  }
+  const script = JSON.parse(fs.readFileSync(scriptPath, 'utf-8')) as MockScript;
+  if (!Array.isArray(script.steps) || script.steps.length === 0) {
+    throw new Error('Mock script needs at least one step');
+  }
+  for (const step of script.steps) {
+    if (!MOCK_ACTIONS.includes(step.action)) {
+      throw new Error(`Unknown mock action "${step.action}", use one of: ${MOCK_ACTIONS.join(', ')}`);
+    }
+  }
+  return script;
+}
+
+function pickItems(names: string[], maxQuantity: number) {
+  return names
+    .filter(() => Math.random() < 0.6)
+    .map(name => ({ name, quantity: 1 + Math.floor(Math.random() * maxQuantity) }));
+}
+
+function generateStock(): MockStock {
+  const now = Date.now();
+  const weatherName = Math.random() < 0.25
+    ? MOCK_ITEMS.weather[Math.floor(Math.random() * MOCK_ITEMS.weather.length)]
+    : null;
+  return {
+    // Always at least one seed so every restock has something to notify about
+    seeds: [{ name: 'Carrot', quantity: 5 + Math.floor(Math.random() * 20) }, ...pickItems(MOCK_ITEMS.seeds.slice(1), 5)],
+    gear: pickItems(MOCK_ITEMS.gear, 3),
+    eggs: pickItems(MOCK_ITEMS.eggs, 2),
+    weather: weatherName ? { type: weatherName, endsAt: now + 5 * 60 * 1000 } : null,
+    generatedAt: now
+  };
+}
+
+// Shaped like GrowAGardenProMessage in src/lib/growagardenpro-websocket.ts
+function toGrowAGardenProMessage(stock: MockStock) {
+  return {
+    type: 'stock_update',
+    data: {
+      seeds: stock.seeds,
+      gear: stock.gear,
+      eggs: stock.eggs,
+      weather: stock.weather
+        ? { type: stock.weather.type.toLowerCase(), active: true, lastUpdated: new Date(stock.generatedAt).toISOString() }
+        : undefined,
+      // The listener reads the end time from the history entry of the active weather
+      weatherHistory: stock.weather ? [{
+        type: stock.weather.type.toLowerCase(),
+        active: true,
+        startTime: new Date(stock.generatedAt).toISOString(),
+        endTime: new Date(stock.weather.endsAt).toISOString()
+      }] : [],
+      timestamp: stock.generatedAt
+    }
+  };
+}
+
+// Shaped like WebSocketStockData in src/lib/jstudio-websocket.ts
+function toJStudioMessage(stock: MockStock) {
+  const startUnix = Math.floor(stock.generatedAt / 1000);
+  const endUnix = startUnix + 5 * 60;
+  const toStockItems = (items: Array<{ name: string; quantity: number }>) => items.map(item => ({
+    item_id: normalizeId(item.name),
+    display_name: item.name,
+    quantity: item.quantity,
+    start_date_unix: startUnix,
+    end_date_unix: endUnix,
+    Date_Start: new Date(startUnix * 1000).toISOString(),
+    Date_End: new Date(endUnix * 1000).toISOString()
+  }));
+
+  return {
+    seed_stock: toStockItems(stock.seeds),
+    gear_stock: toStockItems(stock.gear),
+    egg_stock: toStockItems(stock.eggs),
+    cosmetic_stock: [],
+    eventshop_stock: [],
+    travelingmerchant_stock: { merchantName: 'No Merchant', stock: [] },
+    weather: stock.weather ? [{
+      weather_id: normalizeId(stock.weather.type),
+      weather_name: stock.weather.type,
+      active: true,
+      duration: 300,
+      start_duration_unix: startUnix,
+      end_duration_unix: Math.floor(stock.weather.endsAt / 1000)
+    }] : [],
+    notification: []
+  };
+}
+
+function feedFor(request: IncomingMessage): Feed {
+  const pathname = new URL(request.url || '/', 'ws://localhost').pathname;
+  return pathname === JSTUDIO_PATH ? 'jstudio' : 'gagpro';
+}
+
+function runMockServer() {
+  const options = parseArgs(process.argv.slice(2));
+  const script = loadScript(options.scriptPath);
+  const clients = new Map<WebSocket, Feed>();
+  const refusing = new Set<Feed>();
+  let stock = generateStock();
+  let stepIndex = 0;
+
+  const server = new WebSocketServer({
+    port: options.port,
+    verifyClient: (info, callback) => {
+      const feed = feedFor(info.req);
+      if (refusing.has(feed)) {
+        console.log(`🚫 Refusing ${feed} connection`);
+        callback(false, 503, 'Mock upstream refusing connections');
+        return;
+      }
+      callback(true);
+    }
+  });
+
+  const send = (socket: WebSocket, feed: Feed) => {
+    const message = feed === 'jstudio' ? toJStudioMessage(stock) : toGrowAGardenProMessage(stock);
+    socket.send(JSON.stringify(message));
+  };
+
+  const targets = (step: MockStep) => Array.from(clients.entries())
+    .filter(([, feed]) => !step.target || step.target === feed);
+
+  server.on('connection', (socket, request) => {
+    const feed = feedFor(request);
+    clients.set(socket, feed);
+    console.log(`🔗 ${feed} client connected (${clients.size} total)`);
+
+    // The real services send the current stock right after connecting
+    send(socket, feed);
+
+    socket.on('close', () => {
+      clients.delete(socket);
+      console.log(`🔌 ${feed} client disconnected (${clients.size} total)`);
+    });
+  });
+
+  const tick = () => {
+    let step: MockStep = { action: 'stock' };
+    if (stepIndex < script.steps.length) {
+      step = script.steps[stepIndex];
+      stepIndex++;
+      if (stepIndex === script.steps.length && script.loop !== false) {
+        stepIndex = 0;
+      }
+    }
+
+    const targetLabel = step.target || 'all feeds';
+    refusing.clear();
+
+    switch (step.action) {
+      case 'stock':
+        stock = generateStock();
+        console.log(`📦 Sending restock to ${targetLabel}: ${stock.seeds.map(s => `${s.name} x${s.quantity}`).join(', ')}`);
+        for (const [socket, feed] of targets(step)) send(socket, feed);
+        break;
+      case 'malformed':
+        console.log(`💥 Sending malformed frame to ${targetLabel}`);
+        for (const [socket] of targets(step)) socket.send('{"type":"stock_update","data":{"seeds":[{"name":');
+        break;
+      case 'refuse':
+        for (const feed of ['gagpro', 'jstudio'] as Feed[]) {
+          if (!step.target || step.target === feed) refusing.add(feed);
+        }
+        console.log(`🚫 Dropping ${targetLabel} and refusing new connections until the next step`);
+        for (const [socket] of targets(step)) socket.terminate();
+        break;
+      case 'drop':
+        console.log(`✂️ Dropping connections for ${targetLabel}`);
+        for (const [socket] of targets(step)) socket.terminate();
+        break;
+      case 'silence':
+        console.log(`🤫 Staying silent for ${targetLabel}`);
+        break;
+    }
+  };
+
+  const timer = setInterval(tick, options.intervalSeconds * 1000);
+
+  server.on('listening', () => {
+    console.log(`🧪 Mock upstream listening on port ${options.port}`);
+    console.log(`   GrowAGardenPro: ws://localhost:${options.port}/`);
+    console.log(`   JStudio:        ws://localhost:${options.port}${JSTUDIO_PATH}`);
+    console.log(`   ${script.steps.length} step(s) every ${options.intervalSeconds}s: ${script.steps.map(s => s.target ? `${s.action}(${s.target})` : s.action).join(', ')}`);
+  });
+
+  const shutdown = () => {
+    console.log('\n🛑 Stopping mock upstream...');
+    clearInterval(timer);
+    for (const socket of clients.keys()) socket.terminate();
+    server.close(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+runMockServer();
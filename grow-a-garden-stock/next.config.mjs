@@ -50,7 +50,8 @@ const nextConfig = {
         ],
       },
       {
-        source: '/api/(.*)',
+        // /api/stock sets its own Cache-Control based on the next restock
+        source: '/api/:path((?!stock$).*)',
         headers: [
           {
             key: 'Cache-Control',
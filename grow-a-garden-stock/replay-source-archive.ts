@@ -0,0 +1,175 @@
+import * as dotenv from 'dotenv';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import type { Message } from 'discord.js';
+import type { RecordedMessage } from './src/lib/source-recorder.js';
+
+// Replays an NDJSON archive written with SOURCE_RECORD_PATH through the real
+// source handlers and stock manager, without connecting to any feed.
+//
+// Usage: npm run replay-sources -- <archive.ndjson> [--speed 60] [--source gagpro,cactus] [--out replay-output]
+
+const USAGE = 'Usage: npm run replay-sources -- <archive.ndjson> [--speed <factor>] [--source <name,...>] [--out <dir>]';
+
+interface ReplayOptions {
+  archivePath: string;
+  speed: number; // 1 = original timing, 60 = one hour of recording per minute, 0 = no waiting
+  sources: string[] | null;
+  outDir: string;
+}
+
+function parseArgs(args: string[]): ReplayOptions {
+  let archivePath: string | null = null;
+  let speed = 1;
+  let sources: string[] | null = null;
+  let outDir = 'replay-output';
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--speed') {
+      speed = parseFloat(args[++i]);
+    } else if (arg === '--source') {
+      sources = (args[++i] || '').split(',').map(s => s.trim()).filter(Boolean);
+    } else if (arg === '--out') {
+      outDir = args[++i];
+    } else if (!archivePath) {
+      archivePath = arg;
+    }
+  }
+
+  if (!archivePath || isNaN(speed) || speed < 0 || !outDir) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  return { archivePath: path.resolve(archivePath), speed, sources, outDir: path.resolve(outDir) };
+}
+
+async function readArchive(archivePath: string): Promise<RecordedMessage[]> {
+  const entries: RecordedMessage[] = [];
+  const lines = readline.createInterface({ input: fs.createReadStream(archivePath), crlfDelay: Infinity });
+  let lineNumber = 0;
+  for await (const line of lines) {
+    lineNumber++;
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as RecordedMessage);
+    } catch {
+      console.warn(`⚠️ Skipping malformed archive line ${lineNumber}`);
+    }
+  }
+  return entries;
+}
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function replay() {
+  const options = parseArgs(process.argv.slice(2));
+  if (!fs.existsSync(options.archivePath)) {
+    console.error(`❌ Archive not found: ${options.archivePath}`);
+    process.exit(1);
+  }
+
+  // Discord channel IDs come from the project's .env.local, load it before leaving the project directory
+  dotenv.config({ path: path.resolve(process.cwd(), '.env.local') });
+
+  // Never notify real devices from a replay, and never record the replay itself
+  process.env.NOTIFICATIONS_DRY_RUN = 'true';
+  delete process.env.SOURCE_RECORD_PATH;
+
+  // Same source configuration (priorities, thresholds, enabled flags) and item catalog as the live stock manager
+  process.env.STOCK_SOURCES_CONFIG = path.resolve(process.cwd(), process.env.STOCK_SOURCES_CONFIG || 'stock-sources.json');
+  process.env.ITEM_CATALOG_PATH = path.resolve(process.cwd(), process.env.ITEM_CATALOG_PATH || 'item-catalog.json');
+
+  // The stock manager writes stock-data.json, the event journal and the database
+  // relative to the working directory, keep them away from the live files
+  fs.mkdirSync(options.outDir, { recursive: true });
+  process.chdir(options.outDir);
+
+  // Imported only now so every module resolves its paths inside the output directory
+  const { FakeClock } = await import('./src/lib/clock.js');
+  const { stockManager } = await import('./src/lib/stock-manager.js');
+  const { growAGardenProWebSocket } = await import('./src/lib/growagardenpro-websocket.js');
+  const { jstudioWebSocket } = await import('./src/lib/jstudio-websocket.js');
+  const { processCactusMessage } = await import('./src/lib/discord-listener.js');
+  const { processVulcanMessage } = await import('./src/lib/discord-listener-vulcan.js');
+
+  const frameHandlers: Record<string, (rawMessage: string) => Promise<void>> = {
+    gagpro: rawMessage => growAGardenProWebSocket.handleMessage(rawMessage),
+    websocket: rawMessage => jstudioWebSocket.handleMessage(rawMessage)
+  };
+  const discordHandlers: Record<string, (message: Message) => Promise<void>> = {
+    cactus: processCactusMessage,
+    vulcan: processVulcanMessage
+  };
+
+  const entries = (await readArchive(options.archivePath))
+    .filter(entry => !options.sources || options.sources.includes(entry.source));
+
+  if (entries.length === 0) {
+    console.log('📭 Nothing to replay');
+    return;
+  }
+
+  const firstTime = new Date(entries[0].receivedAt).getTime();
+  const lastTime = new Date(entries[entries.length - 1].receivedAt).getTime();
+  console.log(`▶️ Replaying ${entries.length} messages spanning ${Math.round((lastTime - firstTime) / 1000)}s at ${options.speed === 0 ? 'full' : `${options.speed}x`} speed`);
+  console.log(`📁 Output directory: ${options.outDir}`);
+
+  // The stock manager sees the recorded times, so rate limits and expiry behave
+  // as they did live no matter how fast the replay runs
+  const clock = new FakeClock(firstTime);
+  stockManager.setClock(clock);
+
+  const replayStart = Date.now();
+  const counts: Record<string, number> = {};
+
+  for (const entry of entries) {
+    // Keep the original spacing between messages, compressed by the speed factor
+    if (options.speed > 0) {
+      const due = replayStart + (new Date(entry.receivedAt).getTime() - firstTime) / options.speed;
+      const wait = due - Date.now();
+      if (wait > 0) {
+        await sleep(wait);
+      }
+    }
+
+    clock.set(entry.receivedAt);
+
+    try {
+      if (entry.kind === 'websocket' && frameHandlers[entry.source]) {
+        await frameHandlers[entry.source](entry.data);
+      } else if (entry.kind === 'discord' && discordHandlers[entry.source]) {
+        // The listeners only read the channel, embeds and components
+        const message = {
+          id: entry.data.id,
+          content: entry.data.content,
+          channel: { id: entry.data.channelId },
+          embeds: entry.data.embeds,
+          components: entry.data.components
+        } as unknown as Message;
+        await discordHandlers[entry.source](message);
+      } else {
+        console.warn(`⚠️ No replay handler for ${entry.kind} message from ${entry.source}`);
+        continue;
+      }
+      counts[entry.source] = (counts[entry.source] || 0) + 1;
+    } catch (error) {
+      console.error(`❌ Error replaying message from ${entry.source}:`, error);
+    }
+  }
+
+  console.log('');
+  console.log('✅ Replay finished');
+  for (const [source, count] of Object.entries(counts)) {
+    console.log(`   • ${source}: ${count} messages`);
+  }
+}
+
+replay().then(() => process.exit(0)).catch(error => {
+  console.error('❌ Replay failed:', error);
+  process.exit(1);
+});
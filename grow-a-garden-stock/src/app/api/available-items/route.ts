@@ -1,38 +1,23 @@
-import { ALL_ITEMS } from '@/lib/notification-utils';
+import { itemCatalog } from '@/lib/item-catalog';
 import { NextResponse } from 'next/server';
 
 export async function GET() {
   try {
-    console.log('Serving static available items list...');
+    console.log('Serving available items from the item catalog...');
     
-    // Convert the ALL_ITEMS object to a flat array for the frontend
-    const allItemsArray = [
-      ...Object.values(ALL_ITEMS.seeds).map(name => ({ 
-        item_id: name.toLowerCase().replace(/\s+/g, '_'), 
-        display_name: name, 
-        category: 'seeds' 
-      })),
-      ...Object.values(ALL_ITEMS.gear).map(name => ({ 
-        item_id: name.toLowerCase().replace(/\s+/g, '_'), 
-        display_name: name, 
-        category: 'gear' 
-      })),
-      ...Object.values(ALL_ITEMS.eggs).map(name => ({ 
-        item_id: name.toLowerCase().replace(/\s+/g, '_'), 
-        display_name: name, 
-        category: 'eggs' 
-      })),
-      ...Object.values(ALL_ITEMS.weather).map(name => ({ 
-        item_id: name.toLowerCase().replace(/\s+/g, '_'), 
-        display_name: name, 
-        category: 'weather' 
-      }))
-    ];
+    // Flat list of every item that has its own notification preference
+    const allItemsArray = itemCatalog.getItems()
+      .filter(item => ['seeds', 'gear', 'eggs', 'weather'].includes(item.category))
+      .map(item => ({
+        item_id: item.id,
+        display_name: item.name,
+        category: item.category
+      }));
     
     return NextResponse.json({
       items: allItemsArray,
       lastUpdated: new Date().toISOString(),
-      source: 'Static List (No API calls)'
+      source: 'Item catalog (No API calls)'
     });
   } catch (error) {
     console.error('Error serving available items:', error);
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getItemStats } from '@/lib/item-stats';
+
+const DEFAULT_WINDOW_DAYS = 30;
+const MAX_WINDOW_DAYS = 90;
+
+interface RouteParams {
+  params: Promise<{
+    itemId: string;
+  }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { itemId } = await params;
+
+  if (!itemId) {
+    return NextResponse.json({ error: 'Item ID is required' }, { status: 400 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const days = parseInt(searchParams.get('days') || `${DEFAULT_WINDOW_DAYS}`);
+
+  if (isNaN(days) || days < 1 || days > MAX_WINDOW_DAYS) {
+    return NextResponse.json(
+      { error: 'Invalid days', details: `Days must be between 1 and ${MAX_WINDOW_DAYS}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const stats = await getItemStats(decodeURIComponent(itemId), days);
+
+    return NextResponse.json({
+      stats,
+      lastUpdated: new Date().toISOString(),
+      source: 'Stock History'
+    });
+  } catch (error) {
+    console.error(`Error building item stats for ${itemId}:`, error);
+    return NextResponse.json({
+      error: 'Failed to build item statistics.',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
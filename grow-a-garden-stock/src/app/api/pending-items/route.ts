@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from 'next/server';
+import database from '@/lib/database';
+import type { PendingItemEntry } from '@/lib/database';
+import { authorizeAdmin } from '@/lib/admin-auth';
+import { itemCatalog } from '@/lib/item-catalog';
+import type { CatalogItem } from '@/lib/item-catalog';
+
+const STATUSES: PendingItemEntry['status'][] = ['pending', 'approved', 'rejected'];
+
+interface ReviewRequest {
+  itemId: string;
+  action: 'approve' | 'reject';
+  // Only used when approving
+  rarity?: string;
+  category?: string; // Defaults to the category the item was reported in
+  name?: string; // Defaults to the reported name
+  aliases?: string[];
+  defaultEnabled?: boolean;
+}
+
+// GET - Items sources reported that are not in the item catalog (?status=pending|approved|rejected|all)
+export async function GET(req: NextRequest) {
+  const auth = await authorizeAdmin(req, 'catalog:read');
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  try {
+    const { searchParams } = new URL(req.url);
+    const status = searchParams.get('status') || 'pending';
+    if (status !== 'all' && !STATUSES.includes(status as PendingItemEntry['status'])) {
+      return NextResponse.json(
+        { error: 'Invalid status', details: `Use one of: ${STATUSES.join(', ')}, all` },
+        { status: 400 }
+      );
+    }
+
+    await database.initialize();
+    const items = await database.getPendingItems(status === 'all' ? undefined : { status: status as PendingItemEntry['status'] });
+
+    return NextResponse.json({
+      items,
+      rarities: itemCatalog.getRarities(),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error getting pending items:', error);
+    return NextResponse.json(
+      { error: 'Failed to get pending items.' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Approve a pending item into the item catalog, or reject it
+export async function POST(req: NextRequest) {
+  const auth = await authorizeAdmin(req, 'catalog:write');
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  try {
+    const body: ReviewRequest = await req.json();
+
+    if (!body.itemId || typeof body.itemId !== 'string') {
+      return NextResponse.json({ error: 'itemId is required' }, { status: 400 });
+    }
+    if (body.action !== 'approve' && body.action !== 'reject') {
+      return NextResponse.json({ error: 'Invalid action', details: 'Use approve or reject' }, { status: 400 });
+    }
+
+    await database.initialize();
+    const [pending] = await database.getPendingItems({ item_id: body.itemId });
+    if (!pending) {
+      return NextResponse.json({ error: 'Pending item not found' }, { status: 404 });
+    }
+    if (pending.status !== 'pending') {
+      return NextResponse.json(
+        { error: 'Item already reviewed', details: `${pending.item_id} was ${pending.status} at ${pending.reviewed_at}` },
+        { status: 409 }
+      );
+    }
+
+    const reviewedAt = new Date().toISOString();
+
+    if (body.action === 'reject') {
+      await database.updatePendingItemStatus(pending.item_id, 'rejected', reviewedAt);
+      console.log(`🚫 Rejected pending item ${pending.name} (admin key "${auth.apiKey.name}")`);
+      return NextResponse.json({ message: 'Item rejected', itemId: pending.item_id });
+    }
+
+    const category = body.category || pending.category;
+    const catalogCategory = itemCatalog.getCategories().find(c => c.id === category);
+    if (!catalogCategory || catalogCategory.notificationType !== 'item') {
+      return NextResponse.json(
+        { error: 'Invalid category', details: `${category} does not list individual items` },
+        { status: 400 }
+      );
+    }
+    if (!body.rarity || !itemCatalog.getRarities().includes(body.rarity)) {
+      return NextResponse.json(
+        { error: 'Invalid rarity', details: `Use one of: ${itemCatalog.getRarities().join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    let item: CatalogItem;
+    try {
+      item = itemCatalog.addItem({
+        id: pending.item_id,
+        name: body.name || pending.name,
+        category,
+        rarity: body.rarity,
+        aliases: Array.isArray(body.aliases) ? body.aliases.filter(alias => typeof alias === 'string') : [],
+        defaultEnabled: body.defaultEnabled === true
+      });
+    } catch (catalogError) {
+      return NextResponse.json(
+        { error: 'Could not add item to the catalog', details: catalogError instanceof Error ? catalogError.message : 'Unknown error' },
+        { status: 409 }
+      );
+    }
+
+    await database.updatePendingItemStatus(pending.item_id, 'approved', reviewedAt);
+    console.log(`✅ Approved pending item ${item.name} as ${item.rarity} ${item.category} (admin key "${auth.apiKey.name}")`);
+
+    return NextResponse.json({ message: 'Item added to the catalog', item });
+  } catch (error) {
+    console.error('Error reviewing pending item:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to review pending item.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCategoryPredictions, PREDICTION_CATEGORIES, PredictionCategory } from '@/lib/restock-predictions';
+
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const category = searchParams.get('category');
+
+  if (category && !PREDICTION_CATEGORIES.includes(category as PredictionCategory)) {
+    return NextResponse.json(
+      { error: 'Invalid category', details: `Use one of: ${PREDICTION_CATEGORIES.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const categories = category ? [category as PredictionCategory] : PREDICTION_CATEGORIES;
+    const predictions = [];
+    for (const predictionCategory of categories) {
+      predictions.push(await getCategoryPredictions(predictionCategory));
+    }
+
+    return NextResponse.json({
+      predictions,
+      lastUpdated: new Date().toISOString(),
+      source: 'Stock History'
+    });
+  } catch (error) {
+    console.error('Error building restock predictions:', error);
+    return NextResponse.json({
+      error: 'Failed to build restock predictions.',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import * as fs from 'fs';
 import * as path from 'path';
+import { guardPublicRequest } from '@/lib/request-guard';
+import type { DeliveryMode, ItemPreference } from '@/lib/database';
+import type { QuietHoursSettings } from '@/lib/quiet-hours';
 
 const TOKENS_PATH = path.resolve(process.cwd(), 'push-tokens.json');
 
@@ -13,7 +16,10 @@ interface PushTokenEntry {
   app_version?: string;
   user_agent?: string;
   ip_address?: string;
-  preferences?: { [itemName: string]: boolean };
+  preferences?: { [itemName: string]: ItemPreference };
+  time_zone?: string | null;
+  quiet_hours?: QuietHoursSettings | null;
+  delivery_mode?: DeliveryMode;
 }
 
 function loadTokens(): PushTokenEntry[] {
@@ -57,6 +63,11 @@ export async function GET(req: NextRequest) {
         { status: 400 }
       );
     }
+
+    const blocked = await guardPublicRequest(req, 'get_preferences', token);
+    if (blocked) {
+      return blocked;
+    }
     
     // Validate token
     const tokenValidation = validateToken(token);
@@ -90,6 +101,9 @@ export async function GET(req: NextRequest) {
     return NextResponse.json({ 
       success: true,
       preferences: tokenEntry.preferences || {},
+      timeZone: tokenEntry.time_zone ?? null,
+      quietHours: tokenEntry.quiet_hours ?? null,
+      deliveryMode: tokenEntry.delivery_mode ?? 'per_item',
       lastUpdated: tokenEntry.last_used,
       isActive: tokenEntry.is_active,
       deviceType: tokenEntry.device_type,
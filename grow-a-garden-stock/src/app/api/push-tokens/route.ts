@@ -3,6 +3,7 @@ import { getTokenStats } from '@/lib/notification-utils';
 import * as fs from 'fs';
 import * as path from 'path';
 import database from '@/lib/database';
+import { authorizeAdmin } from '@/lib/admin-auth';
 
 const TOKENS_PATH = path.resolve(process.cwd(), 'push-tokens.json');
 
@@ -60,6 +61,15 @@ export async function GET(req: NextRequest) {
   try {
     const { searchParams } = new URL(req.url);
     const includeTokens = searchParams.get('include_tokens') === 'true';
+
+    // Aggregate stats stay public, listing tokens is an admin operation
+    if (includeTokens) {
+      const auth = await authorizeAdmin(req, 'push_tokens:read');
+      if (!auth.authorized) {
+        return auth.response;
+      }
+    }
+
     const limit = parseInt(searchParams.get('limit') || '50');
     const offset = parseInt(searchParams.get('offset') || '0');
     
@@ -138,6 +148,11 @@ export async function GET(req: NextRequest) {
 // DELETE - Bulk cleanup operations
 export async function DELETE(req: NextRequest) {
   try {
+    const auth = await authorizeAdmin(req, 'push_tokens:delete');
+    if (!auth.authorized) {
+      return auth.response;
+    }
+
     const { searchParams } = new URL(req.url);
     const action = searchParams.get('action');
     
@@ -227,7 +242,7 @@ export async function DELETE(req: NextRequest) {
         // Remove all tokens (use with caution!)
         removedCount = tokens.length;
         fs.writeFileSync(TOKENS_PATH, JSON.stringify([], null, 2));
-        console.log(`🧹 Bulk cleanup: Removed all ${removedCount} JSON tokens`);
+        console.log(`🧹 Bulk cleanup: Removed all ${removedCount} JSON tokens (admin key "${auth.apiKey.name}")`);
         
         // Clean up all database tokens
         try {
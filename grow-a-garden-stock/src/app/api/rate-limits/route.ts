@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeAdmin } from '@/lib/admin-auth';
+import { rateLimiter } from '@/lib/rate-limiter';
+import { getBlockedRequestStats } from '@/lib/request-guard';
+
+// GET - Requests blocked by the public route guard since this server started
+export async function GET(req: NextRequest) {
+  const auth = await authorizeAdmin(req, 'rate_limits:read');
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  try {
+    return NextResponse.json({
+      blocked: getBlockedRequestStats(),
+      trackedKeys: rateLimiter.getTrackedKeyCount(),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error reading rate limit stats:', error);
+    return NextResponse.json(
+      { error: 'Failed to read rate limit stats.' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import * as fs from 'fs';
 import * as path from 'path';
 import database from '../../../lib/database';
+import type { ItemPreference } from '../../../lib/database';
+import { getClientIP, guardNewRegistration, guardPublicRequest } from '../../../lib/request-guard';
+import { itemCatalog } from '../../../lib/item-catalog';
 
 const TOKENS_PATH = path.resolve(process.cwd(), 'push-tokens.json');
 
@@ -14,7 +17,7 @@ interface PushTokenEntry {
   app_version?: string;
   user_agent?: string;
   ip_address?: string;
-  preferences?: { [itemName: string]: boolean };
+  preferences?: { [itemName: string]: ItemPreference };
   onesignal_player_id?: string; // OneSignal player ID
   failure_count?: number; // Track consecutive failures
   last_failure?: string; // Track when last failure occurred
@@ -24,7 +27,7 @@ interface RegisterRequest {
   token: string;
   device_type?: 'ios' | 'android';
   app_version?: string;
-  preferences?: { [itemName: string]: boolean };
+  preferences?: { [itemName: string]: ItemPreference };
   onesignal_player_id?: string; // OneSignal player ID
 }
 
@@ -68,26 +71,8 @@ function validateToken(token: string, onesignal_player_id?: string): { isValid:
   return { isValid: true };
 }
 
-function getClientIP(req: NextRequest): string {
-  const forwarded = req.headers.get('x-forwarded-for');
-  const realIP = req.headers.get('x-real-ip');
-  const cfConnectingIP = req.headers.get('cf-connecting-ip');
-  
-  if (forwarded) {
-    return forwarded.split(',')[0].trim();
-  }
-  if (realIP) {
-    return realIP;
-  }
-  if (cfConnectingIP) {
-    return cfConnectingIP;
-  }
-  
-  return 'unknown';
-}
-
 // Helper function to merge preferences without overwriting existing ones
-function mergePreferences(existingPreferences: { [itemName: string]: boolean } | undefined, newPreferences: { [itemName: string]: boolean } | undefined): { [itemName: string]: boolean } {
+function mergePreferences(existingPreferences: { [itemName: string]: ItemPreference } | undefined, newPreferences: { [itemName: string]: ItemPreference } | undefined): { [itemName: string]: ItemPreference } {
   if (!newPreferences) {
     return existingPreferences || {};
   }
@@ -108,7 +93,16 @@ function isOneSignalToken(token: string, onesignal_player_id?: string): boolean
 export async function POST(req: NextRequest) {
   try {
     const body: RegisterRequest = await req.json();
-    const { token, device_type, app_version, preferences, onesignal_player_id } = body;
+    const { token, device_type, app_version, onesignal_player_id } = body;
+    // Spelling variants are stored under the catalog name notifications look up
+    const preferences = body.preferences && typeof body.preferences === 'object'
+      ? itemCatalog.canonicalizePreferences(body.preferences)
+      : body.preferences;
+
+    const blocked = await guardPublicRequest(req, 'register', token);
+    if (blocked) {
+      return blocked;
+    }
     
     // Validate token
     const validation = validateToken(token, onesignal_player_id);
@@ -165,6 +159,11 @@ export async function POST(req: NextRequest) {
             preferences: preferences ? JSON.parse(updates.preferences) : existingToken.preferences ? JSON.parse(existingToken.preferences) : {}
           });
         } else {
+          const registrationBlocked = await guardNewRegistration(req);
+          if (registrationBlocked) {
+            return registrationBlocked;
+          }
+
           // Add new OneSignal token to database
           const newToken = {
             token,
@@ -244,6 +243,11 @@ export async function POST(req: NextRequest) {
       });
     }
     
+    const registrationBlocked = await guardNewRegistration(req);
+    if (registrationBlocked) {
+      return registrationBlocked;
+    }
+
     // Add new token
     const newToken: PushTokenEntry = {
       token,
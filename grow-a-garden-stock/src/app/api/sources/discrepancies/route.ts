@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server';
+import database from '@/lib/database';
+import { getCycleStart, isRestockCategory, REFRESH_INTERVALS, RESTOCK_CATEGORIES } from '@/lib/restock-schedule';
+import { findItemDifferences, groupAgreeingSources, ItemDifference, ReportedItem } from '@/lib/stock-comparison';
+import { loadStockSourceConfig } from '@/lib/stock-source-config';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 200;
+const DEFAULT_HOURS = 24;
+const MAX_HOURS = 168;
+
+interface SourceReport {
+  items: ReportedItem[];
+  reportedAt: string;
+}
+
+interface CycleDiscrepancy {
+  category: string;
+  cycleIndex: number;
+  cycleStart: string;
+  status: 'single_source' | 'agreed' | 'disagreed';
+  reports: Record<string, SourceReport | null>; // null = source did not report this cycle
+  agreeingSources: string[];
+  differences: ItemDifference[];
+}
+
+// GET - What each source reported per recent restock cycle, with differences highlighted
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const category = searchParams.get('category');
+    const limit = parseInt(searchParams.get('limit') || `${DEFAULT_LIMIT}`);
+    const hours = parseInt(searchParams.get('hours') || `${DEFAULT_HOURS}`);
+    const onlyDisagreements = searchParams.get('only_disagreements') === 'true';
+
+    if (category && !isRestockCategory(category)) {
+      return NextResponse.json(
+        { error: 'Invalid category', details: `Use one of: ${RESTOCK_CATEGORIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (isNaN(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return NextResponse.json(
+        { error: 'Invalid limit', details: `Limit must be between 1 and ${MAX_LIMIT}` },
+        { status: 400 }
+      );
+    }
+
+    if (isNaN(hours) || hours < 1 || hours > MAX_HOURS) {
+      return NextResponse.json(
+        { error: 'Invalid hours', details: `Hours must be between 1 and ${MAX_HOURS}` },
+        { status: 400 }
+      );
+    }
+
+    // Every configured source gets a column, even ones that are disabled or silent
+    const sourceNames = loadStockSourceConfig()
+      .sort((a, b) => a.priority - b.priority)
+      .map(source => source.name);
+
+    await database.initialize();
+    const rows = await database.getSourceReports({
+      category: category || undefined,
+      from: new Date(Date.now() - hours * 60 * 60 * 1000).toISOString()
+    });
+
+    // Group reports by category and cycle
+    const cycles = new Map<string, { category: string; cycleIndex: number; reports: Record<string, SourceReport> }>();
+    for (const row of rows) {
+      const key = `${row.category}:${row.cycle_index}`;
+      if (!cycles.has(key)) {
+        cycles.set(key, { category: row.category, cycleIndex: row.cycle_index, reports: {} });
+      }
+
+      let items: ReportedItem[] = [];
+      try {
+        items = JSON.parse(row.items) as ReportedItem[];
+      } catch (parseError) {
+        console.error(`❌ Error parsing source report items (id ${row.id}):`, parseError);
+      }
+      cycles.get(key)!.reports[row.source] = { items, reportedAt: row.reported_at };
+
+      if (!sourceNames.includes(row.source)) {
+        sourceNames.push(row.source);
+      }
+    }
+
+    let discrepancies: CycleDiscrepancy[] = [];
+    for (const cycle of cycles.values()) {
+      const reportedItems = Object.fromEntries(
+        Object.entries(cycle.reports).map(([source, report]) => [source, report.items])
+      );
+      const groups = groupAgreeingSources(reportedItems);
+      const reportCount = Object.keys(cycle.reports).length;
+      const status = reportCount <= 1 ? 'single_source' : groups.length === 1 ? 'agreed' : 'disagreed';
+
+      if (onlyDisagreements && status !== 'disagreed') {
+        continue;
+      }
+
+      const interval = isRestockCategory(cycle.category) ? REFRESH_INTERVALS[cycle.category] : 5;
+      discrepancies.push({
+        category: cycle.category,
+        cycleIndex: cycle.cycleIndex,
+        cycleStart: new Date(getCycleStart(cycle.cycleIndex, interval)).toISOString(),
+        status,
+        reports: Object.fromEntries(sourceNames.map(source => [source, cycle.reports[source] ?? null])),
+        agreeingSources: groups[0] && groups[0].length > 1 ? groups[0] : [],
+        differences: findItemDifferences(reportedItems)
+      });
+    }
+
+    // Cycle indexes are per category, so order by cycle start time instead
+    discrepancies = discrepancies
+      .sort((a, b) => b.cycleStart.localeCompare(a.cycleStart) || a.category.localeCompare(b.category))
+      .slice(0, limit);
+
+    // Per-source count of cycles where it disagreed with at least one other source
+    const disagreementCounts = Object.fromEntries(sourceNames.map(source => [
+      source,
+      discrepancies.filter(d => d.status === 'disagreed' && d.reports[source] && !d.agreeingSources.includes(source)).length
+    ]));
+
+    return NextResponse.json({
+      sources: sourceNames,
+      cycles: discrepancies,
+      disagreementCounts,
+      window: { hours, limit },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error building source discrepancy report:', error);
+    return NextResponse.json(
+      { error: 'Failed to build source discrepancy report.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { readSourceStatus } from '@/lib/source-status';
+import { loadStockSourceConfig } from '@/lib/stock-source-config';
+
+// The stock manager rewrites the status every 10 seconds
+const STALE_AFTER_MS = 60 * 1000;
+
+// GET - Health of every configured stock source, as published by the stock manager
+export async function GET() {
+  try {
+    const status = readSourceStatus();
+    const updatedAt = status ? new Date(status.updatedAt).getTime() : 0;
+    // Stale status usually means the stock manager process is down
+    const stale = !status || Date.now() - updatedAt > STALE_AFTER_MS;
+
+    const sources = loadStockSourceConfig()
+      .sort((a, b) => a.priority - b.priority)
+      .map(config => {
+        const published = status?.sources.find(source => source.name === config.name);
+        return {
+          name: config.name,
+          enabled: config.enabled,
+          priority: config.priority,
+          categories: config.categories,
+          thresholds: {
+            maxDelayMinutes: config.maxDelayMinutes,
+            minUpdateIntervalMinutes: config.minUpdateIntervalMinutes
+          },
+          ...(published || {}),
+          online: !stale && (published?.online ?? false)
+        };
+      });
+
+    return NextResponse.json({
+      sources,
+      summary: {
+        online: sources.filter(source => source.online).length,
+        enabled: sources.filter(source => source.enabled).length,
+        total: sources.length
+      },
+      updatedAt: status?.updatedAt ?? null,
+      stale,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error reading source status:', error);
+    return NextResponse.json(
+      { error: 'Failed to read source status.' },
+      { status: 500 }
+    );
+  }
+}
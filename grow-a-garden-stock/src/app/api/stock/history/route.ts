@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server';
+import database from '@/lib/database';
+
+const VALID_CATEGORIES = ['seeds', 'gear', 'eggs', 'cosmetics', 'events'];
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+interface HistoryItem {
+  id: string;
+  name: string;
+  quantity: number;
+}
+
+interface HistoryResponseEntry {
+  id: number;
+  stockId: string;
+  category: string;
+  source: string;
+  items: HistoryItem[];
+  recordedAt: string;
+}
+
+interface PaginationInfo {
+  limit: number;
+  cursor: number | null;
+  next_cursor: number | null;
+  has_more: boolean;
+}
+
+function parseDateParam(value: string | null): { value?: string; error?: string } {
+  if (!value) {
+    return {};
+  }
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    return { error: `Invalid date: ${value}` };
+  }
+
+  return { value: date.toISOString() };
+}
+
+// GET - Query archived stock snapshots (newest first)
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const category = searchParams.get('category');
+    const limit = parseInt(searchParams.get('limit') || `${DEFAULT_LIMIT}`);
+    const cursorParam = searchParams.get('cursor');
+    const cursor = cursorParam ? parseInt(cursorParam) : undefined;
+
+    if (category && !VALID_CATEGORIES.includes(category)) {
+      return NextResponse.json(
+        { error: 'Invalid category', details: `Use one of: ${VALID_CATEGORIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (isNaN(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return NextResponse.json(
+        { error: 'Invalid limit', details: `Limit must be between 1 and ${MAX_LIMIT}` },
+        { status: 400 }
+      );
+    }
+
+    if (cursor !== undefined && (isNaN(cursor) || cursor < 1)) {
+      return NextResponse.json(
+        { error: 'Invalid cursor', details: 'Cursor must be a positive integer' },
+        { status: 400 }
+      );
+    }
+
+    const from = parseDateParam(searchParams.get('from'));
+    const to = parseDateParam(searchParams.get('to'));
+    if (from.error || to.error) {
+      return NextResponse.json(
+        { error: 'Invalid date range', details: from.error || to.error },
+        { status: 400 }
+      );
+    }
+
+    await database.initialize();
+
+    // Fetch one extra row to know whether another page exists
+    const rows = await database.getStockHistory({
+      category: category || undefined,
+      from: from.value,
+      to: to.value,
+      cursor,
+      limit: limit + 1
+    });
+
+    const hasMore = rows.length > limit;
+    const page = rows.slice(0, limit);
+
+    const history: HistoryResponseEntry[] = page.map(row => {
+      let items: HistoryItem[] = [];
+      try {
+        items = JSON.parse(row.items) as HistoryItem[];
+      } catch (parseError) {
+        console.error(`❌ Error parsing stock history items (id ${row.id}):`, parseError);
+      }
+
+      return {
+        id: row.id as number,
+        stockId: row.stock_id,
+        category: row.category,
+        source: row.source,
+        items,
+        recordedAt: row.recorded_at
+      };
+    });
+
+    const pagination: PaginationInfo = {
+      limit,
+      cursor: cursor ?? null,
+      next_cursor: hasMore && page.length > 0 ? (page[page.length - 1].id as number) : null,
+      has_more: hasMore
+    };
+
+    return NextResponse.json({
+      history,
+      pagination,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error reading stock history:', error);
+    return NextResponse.json(
+      { error: 'Failed to read stock history.' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,12 +1,15 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import * as fs from 'fs';
 import * as path from 'path';
+import { createHash } from 'crypto';
+import { getChangedCategoriesSince, getLatestStockEventSequence, resolveStockEventSequence } from '@/lib/stock-events';
 
 interface StockCategory {
   items: unknown[];
   lastUpdated: string;
   nextUpdate: string;
   refreshIntervalMinutes: number;
+  lastStockId?: string;
 }
 
 interface TransformedStockData {
@@ -35,7 +38,78 @@ interface TransformedStockData {
   lastUpdated: string;
 }
 
-export async function GET() {
+const STOCK_CATEGORIES = ['seeds', 'gear', 'eggs', 'cosmetics', 'events'] as const;
+
+// Weak ETag: derived from what identifies each piece of data, not the exact bytes
+function buildETag(data: TransformedStockData, since: string | null): string {
+  const parts: string[] = STOCK_CATEGORIES.map(category => `${category}:${data[category].lastStockId || data[category].lastUpdated}`);
+  parts.push(`weather:${data.weather?.lastUpdated || ''}`);
+  parts.push(`travellingMerchant:${data.travellingMerchant?.lastUpdated || ''}:${data.travellingMerchant?.isActive ?? ''}`);
+  if (since) {
+    parts.push(`since:${since}`);
+  }
+  const hash = createHash('sha1').update(parts.join('|')).digest('base64url');
+  return `W/"${hash}"`;
+}
+
+// Cache until the next category restock
+function buildCacheControl(data: TransformedStockData): string {
+  const now = Date.now();
+  const nextUpdates = STOCK_CATEGORIES
+    .map(category => new Date(data[category].nextUpdate).getTime())
+    .filter(time => !isNaN(time) && time > now);
+  const maxAge = nextUpdates.length > 0 ? Math.floor((Math.min(...nextUpdates) - now) / 1000) : 0;
+  return `public, max-age=${maxAge}, must-revalidate`;
+}
+
+function matchesETag(req: NextRequest, etag: string): boolean {
+  const ifNoneMatch = req.headers.get('if-none-match');
+  if (!ifNoneMatch) {
+    return false;
+  }
+  return ifNoneMatch.split(',').some(tag => tag.trim() === etag || tag.trim() === '*');
+}
+
+// Build the full, conditional (304) or delta (?since=) response for the transformed data
+function buildStockResponse(req: NextRequest, data: TransformedStockData): NextResponse {
+  const since = new URL(req.url).searchParams.get('since');
+  const sequence = getLatestStockEventSequence();
+  const etag = buildETag(data, since);
+  const headers = {
+    'ETag': etag,
+    'Cache-Control': buildCacheControl(data),
+    'X-Stock-Sequence': `${sequence}`
+  };
+
+  if (matchesETag(req, etag)) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+
+  if (since) {
+    const sinceSequence = resolveStockEventSequence(since);
+    // Too old or unknown - the client needs everything
+    if (sinceSequence !== null) {
+      const changed = getChangedCategoriesSince(sinceSequence);
+      const delta: Record<string, unknown> = {
+        lastUpdated: data.lastUpdated,
+        sequence,
+        since,
+        changed
+      };
+      for (const category of changed) {
+        const value = data[category as keyof TransformedStockData];
+        if (value !== undefined) {
+          delta[category] = value;
+        }
+      }
+      return NextResponse.json(delta, { headers });
+    }
+  }
+
+  return NextResponse.json(data, { headers });
+}
+
+export async function GET(req: NextRequest) {
   const stockFilePath = path.resolve(process.cwd(), 'stock-data.json');
 
   try {
@@ -68,7 +142,7 @@ export async function GET() {
       } as TransformedStockData;
       
       // Process each category
-      ['seeds', 'gear', 'eggs', 'cosmetics', 'events'].forEach(category => {
+      STOCK_CATEGORIES.forEach(category => {
         const categoryKey = category as keyof Pick<TransformedStockData, 'seeds' | 'gear' | 'eggs' | 'cosmetics' | 'events'>;
         
         // Define refresh intervals in minutes for each category
@@ -88,7 +162,8 @@ export async function GET() {
             items: categoryData.items,
             lastUpdated: categoryData.lastUpdated || data.lastUpdated,
             nextUpdate: categoryData.nextUpdate || new Date(Date.now() + refreshInterval * 60 * 1000).toISOString(),
-            refreshIntervalMinutes: refreshInterval
+            refreshIntervalMinutes: refreshInterval,
+            lastStockId: categoryData.lastStockId
           };
         } else {
           // Provide default structure if category is missing
@@ -142,7 +217,7 @@ export async function GET() {
         transformedData.travellingMerchant = data.travellingMerchant;
       }
       
-      return NextResponse.json(transformedData);
+      return buildStockResponse(req, transformedData);
     } else {
       // File doesn't exist, return empty data structure
       const now = new Date().toISOString();
@@ -155,7 +230,7 @@ export async function GET() {
         events: { items: [], lastUpdated: now, nextUpdate: now, refreshIntervalMinutes: 30 }
       };
       
-      return NextResponse.json(emptyData);
+      return buildStockResponse(req, emptyData);
     }
   } catch (error) {
     console.error('Error reading stock data file:', error);
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLatestStockEventSequence, getStockEventsSince, resolveStockEventSequence } from '@/lib/stock-events';
+import { getStockData } from '@/lib/stock-manager-nextjs';
+import type { StockUpdateEvent } from '@/lib/stock-manager-nextjs';
+
+export const dynamic = 'force-dynamic';
+
+const VALID_CATEGORIES = ['seeds', 'gear', 'eggs', 'cosmetics', 'events', 'weather', 'travellingMerchant'];
+const POLL_INTERVAL = 1000; // Check the event journal every second
+const HEARTBEAT_INTERVAL = 15000; // Keep proxies from closing idle connections
+const RETRY_DELAY = 3000; // Reconnect delay suggested to EventSource clients
+
+function formatEvent(event: StockUpdateEvent): string {
+  return `id: ${event.sequence}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+// Sent instead of a replay when the journal cannot cover Last-Event-ID, e.g. the
+// client is ahead of a journal that was reset, or too far behind it
+function formatReset(sequence: number, categories: string[]): string {
+  const stockData = getStockData();
+  const data: Record<string, unknown> = { lastUpdated: stockData.lastUpdated };
+  for (const category of categories) {
+    data[category] = stockData[category as keyof typeof stockData];
+  }
+  const event = { type: 'reset', sequence, data, timestamp: new Date().toISOString() };
+  return `id: ${sequence}\nevent: reset\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+// GET - Server-Sent Events stream of accepted stock updates
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const categoriesParam = searchParams.get('categories');
+  const categories = categoriesParam
+    ? categoriesParam.split(',').map(c => c.trim()).filter(Boolean)
+    : VALID_CATEGORIES;
+
+  const invalidCategories = categories.filter(c => !VALID_CATEGORIES.includes(c));
+  if (invalidCategories.length > 0) {
+    return NextResponse.json(
+      { error: 'Invalid categories', details: `Unknown: ${invalidCategories.join(', ')}. Use: ${VALID_CATEGORIES.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  // EventSource sends Last-Event-ID on reconnect, allow a query param for the first connection
+  const lastEventIdParam = req.headers.get('last-event-id') || searchParams.get('lastEventId');
+  const lastEventId = lastEventIdParam ? parseInt(lastEventIdParam) : NaN;
+  let lastSequence = isNaN(lastEventId) ? getLatestStockEventSequence() : lastEventId;
+
+  const encoder = new TextEncoder();
+  let pollTimer: NodeJS.Timeout | null = null;
+  let heartbeatTimer: NodeJS.Timeout | null = null;
+
+  const cleanup = () => {
+    if (pollTimer) clearInterval(pollTimer);
+    if (heartbeatTimer) clearInterval(heartbeatTimer);
+    pollTimer = null;
+    heartbeatTimer = null;
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // Stream already closed by the client
+          cleanup();
+        }
+      };
+
+      const flushEvents = () => {
+        // The journal went back (stock manager restarted or journal cleared), so
+        // nothing would ever be newer than lastSequence again
+        const latestSequence = getLatestStockEventSequence();
+        if (latestSequence < lastSequence) {
+          lastSequence = latestSequence;
+          send(formatReset(lastSequence, categories));
+          return;
+        }
+
+        const events = getStockEventsSince(lastSequence);
+        for (const event of events) {
+          lastSequence = event.sequence;
+          if (categories.includes(event.category)) {
+            send(formatEvent(event));
+          }
+        }
+      };
+
+      send(`retry: ${RETRY_DELAY}\n\n`);
+      if (!isNaN(lastEventId) && resolveStockEventSequence(`${lastEventId}`) === null) {
+        // Cannot resume from that point, start over from a full snapshot
+        lastSequence = getLatestStockEventSequence();
+        send(formatReset(lastSequence, categories));
+      } else {
+        // Resume: replay anything missed since Last-Event-ID
+        flushEvents();
+      }
+
+      pollTimer = setInterval(flushEvents, POLL_INTERVAL);
+      heartbeatTimer = setInterval(() => send(`: heartbeat ${new Date().toISOString()}\n\n`), HEARTBEAT_INTERVAL);
+
+      req.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+    },
+    cancel() {
+      cleanup();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  });
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import * as fs from 'fs';
 import * as path from 'path';
 import database from '@/lib/database';
+import { guardPublicRequest } from '@/lib/request-guard';
 
 const TOKENS_PATH = path.resolve(process.cwd(), 'push-tokens.json');
 
@@ -72,6 +73,11 @@ export async function POST(req: NextRequest) {
   try {
     const body: UnregisterRequest = await req.json();
     const { token } = body;
+
+    const blocked = await guardPublicRequest(req, 'unregister', token);
+    if (blocked) {
+      return blocked;
+    }
     
     // Validate token
     const validation = validateToken(token);
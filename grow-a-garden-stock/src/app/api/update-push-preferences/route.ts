@@ -1,7 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import * as fs from 'fs';
 import * as path from 'path';
-import database from '@/lib/database';
+import database, { DELIVERY_MODES, preferenceMatches } from '@/lib/database';
+import type { DeliveryMode, ItemPreference } from '@/lib/database';
+import { guardPublicRequest } from '@/lib/request-guard';
+import { itemCatalog } from '@/lib/item-catalog';
+import { isValidTimeZone, normalizeQuietHours, parseQuietHours, validateQuietHours } from '@/lib/quiet-hours';
+import type { QuietHoursSettings } from '@/lib/quiet-hours';
 
 const TOKENS_PATH = path.resolve(process.cwd(), 'push-tokens.json');
 
@@ -14,15 +19,21 @@ interface PushTokenEntry {
   app_version?: string;
   user_agent?: string;
   ip_address?: string;
-  preferences?: { [itemName: string]: boolean };
+  preferences?: { [itemName: string]: ItemPreference };
   onesignal_player_id?: string;
   failure_count?: number;
   last_failure?: string;
+  time_zone?: string | null;
+  quiet_hours?: QuietHoursSettings | null;
+  delivery_mode?: DeliveryMode;
 }
 
 interface UpdatePreferencesRequest {
   token: string;
-  preferences: { [itemName: string]: boolean };
+  preferences?: { [itemName: string]: ItemPreference }; // Optional when only quiet hours change
+  timeZone?: string | null; // null resets to UTC
+  quietHours?: QuietHoursSettings | null; // null turns quiet hours off
+  deliveryMode?: DeliveryMode; // per_item or one digest push per restock
 }
 
 function loadTokens(): PushTokenEntry[] {
@@ -74,16 +85,55 @@ function validatePreferences(preferences: Record<string, unknown>): { isValid: b
     return { isValid: false, error: 'Preferences must be an object' };
   }
   
-  // Check that all values are booleans
-  for (const [itemName, enabled] of Object.entries(preferences)) {
-    if (typeof enabled !== 'boolean') {
-      return { isValid: false, error: `Preference for ${itemName} must be a boolean` };
+  // Each value is a boolean or { enabled, minQuantity? } for an item or category in the catalog
+  for (const [itemName, value] of Object.entries(preferences)) {
+    if (typeof value !== 'boolean') {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return { isValid: false, error: `Preference for ${itemName} must be a boolean or { enabled, minQuantity }` };
+      }
+      const { enabled, minQuantity } = value as { enabled?: unknown; minQuantity?: unknown };
+      if (typeof enabled !== 'boolean') {
+        return { isValid: false, error: `Preference for ${itemName} must have a boolean enabled flag` };
+      }
+      if (minQuantity !== undefined && (typeof minQuantity !== 'number' || !Number.isInteger(minQuantity) || minQuantity < 1)) {
+        return { isValid: false, error: `minQuantity for ${itemName} must be a positive integer` };
+      }
     }
   }
   
   return { isValid: true };
 }
 
+// Keys the catalog does not know (e.g. an item renamed or removed since the app
+// was built) are dropped rather than failing the whole update
+function dropUnknownPreferences(preferences: { [itemName: string]: ItemPreference }): { known: { [itemName: string]: ItemPreference }; ignored: string[] } {
+  const known: { [itemName: string]: ItemPreference } = {};
+  const ignored: string[] = [];
+  for (const [itemName, value] of Object.entries(preferences)) {
+    if (itemCatalog.isKnownPreferenceKey(itemName)) {
+      known[itemName] = value;
+    } else {
+      ignored.push(itemName);
+    }
+  }
+  return { known, ignored };
+}
+
+function validateQuietHoursSettings(body: UpdatePreferencesRequest): { isValid: boolean; error?: string } {
+  if (body.timeZone !== undefined && body.timeZone !== null && !isValidTimeZone(body.timeZone)) {
+    return { isValid: false, error: `Unknown time zone: ${body.timeZone}` };
+  }
+
+  if (body.quietHours !== undefined && body.quietHours !== null) {
+    const error = validateQuietHours(body.quietHours, itemCatalog.getRarities());
+    if (error) {
+      return { isValid: false, error };
+    }
+  }
+
+  return { isValid: true };
+}
+
 // Helper function to determine if token is OneSignal
 function isOneSignalToken(token: string): boolean {
   return token.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i) !== null;
@@ -92,7 +142,12 @@ function isOneSignalToken(token: string): boolean {
 export async function POST(req: NextRequest) {
   try {
     const body: UpdatePreferencesRequest = await req.json();
-    const { token, preferences } = body;
+    const { token } = body;
+
+    const blocked = await guardPublicRequest(req, 'update_preferences', token);
+    if (blocked) {
+      return blocked;
+    }
     
     // Validate token
     const tokenValidation = validateToken(token);
@@ -106,8 +161,11 @@ export async function POST(req: NextRequest) {
       );
     }
     
-    // Validate preferences
-    const preferencesValidation = validatePreferences(preferences);
+    // Preferences can be left out when the request only changes delivery settings
+    const updatesSettings = body.timeZone !== undefined || body.quietHours !== undefined || body.deliveryMode !== undefined;
+    const preferencesValidation = body.preferences === undefined && updatesSettings
+      ? { isValid: true }
+      : validatePreferences(body.preferences as Record<string, unknown>);
     if (!preferencesValidation.isValid) {
       return NextResponse.json(
         { 
@@ -117,6 +175,40 @@ export async function POST(req: NextRequest) {
         { status: 400 }
       );
     }
+
+    if (body.deliveryMode !== undefined && !DELIVERY_MODES.includes(body.deliveryMode)) {
+      return NextResponse.json(
+        { 
+          error: 'Invalid delivery mode', 
+          details: `deliveryMode must be one of: ${DELIVERY_MODES.join(', ')}` 
+        }, 
+        { status: 400 }
+      );
+    }
+
+    const quietHoursValidation = validateQuietHoursSettings(body);
+    if (!quietHoursValidation.isValid) {
+      return NextResponse.json(
+        { 
+          error: 'Invalid quiet hours', 
+          details: quietHoursValidation.error 
+        }, 
+        { status: 400 }
+      );
+    }
+
+    const { known, ignored: ignoredPreferences } = body.preferences
+      ? dropUnknownPreferences(body.preferences)
+      : { known: undefined, ignored: [] };
+    if (ignoredPreferences.length > 0) {
+      console.warn(`⚠️ Ignored unknown preference keys for token ${token.substring(0, 20)}...: ${ignoredPreferences.join(', ')}`);
+    }
+    // Spelling variants are stored under the catalog name notifications look up.
+    // Nothing left after dropping unknown keys keeps the stored preferences.
+    const newPreferences = known && (Object.keys(known).length > 0 || ignoredPreferences.length === 0)
+      ? itemCatalog.canonicalizePreferences(known)
+      : undefined;
+    const quietHours = body.quietHours ? normalizeQuietHours(body.quietHours) : body.quietHours;
     
     // Determine if this is a OneSignal token
     const isOneSignal = isOneSignalToken(token);
@@ -130,9 +222,15 @@ export async function POST(req: NextRequest) {
         const existingToken = existingTokens.find(t => t.token === token);
         
         if (existingToken) {
+          const preferences: { [itemName: string]: ItemPreference } = newPreferences
+            ?? (existingToken.preferences ? JSON.parse(existingToken.preferences) : {});
+
           // Update preferences in database
           const updates = {
-            preferences: JSON.stringify(preferences),
+            preferences: newPreferences ? JSON.stringify(newPreferences) : undefined,
+            time_zone: body.timeZone,
+            quiet_hours: quietHours ? JSON.stringify(quietHours) : quietHours, // undefined leaves it, null clears it
+            delivery_mode: body.deliveryMode,
             last_used: new Date().toISOString(),
             is_active: true // Reactivate if it was inactive
           };
@@ -140,15 +238,19 @@ export async function POST(req: NextRequest) {
           await database.updateToken(token, updates);
           
           console.log(`⚙️ Updated preferences for OneSignal token: ${token.substring(0, 20)}...`);
-          console.log(`   Enabled items: ${Object.keys(preferences).filter(k => preferences[k]).length}`);
-          console.log(`   Disabled items: ${Object.keys(preferences).filter(k => !preferences[k]).length}`);
+          console.log(`   Enabled items: ${Object.keys(preferences).filter(k => preferenceMatches(preferences[k])).length}`);
+          console.log(`   Disabled items: ${Object.keys(preferences).filter(k => !preferenceMatches(preferences[k])).length}`);
           
           return NextResponse.json({ 
             message: 'OneSignal preferences updated successfully',
             action: 'updated',
             storage: 'database',
-            enabledItems: Object.keys(preferences).filter(k => preferences[k]),
-            disabledItems: Object.keys(preferences).filter(k => !preferences[k])
+            enabledItems: Object.keys(preferences).filter(k => preferenceMatches(preferences[k])),
+            disabledItems: Object.keys(preferences).filter(k => !preferenceMatches(preferences[k])),
+            timeZone: body.timeZone !== undefined ? body.timeZone : existingToken.time_zone ?? null,
+            quietHours: quietHours !== undefined ? quietHours : parseQuietHours(existingToken.quiet_hours),
+            deliveryMode: body.deliveryMode ?? existingToken.delivery_mode ?? 'per_item',
+            ignoredPreferences
           });
         } else {
           return NextResponse.json(
@@ -186,21 +288,37 @@ export async function POST(req: NextRequest) {
     }
     
     // Update preferences
-    tokenEntry.preferences = preferences;
+    if (newPreferences) {
+      tokenEntry.preferences = newPreferences;
+    }
+    if (body.timeZone !== undefined) {
+      tokenEntry.time_zone = body.timeZone;
+    }
+    if (quietHours !== undefined) {
+      tokenEntry.quiet_hours = quietHours;
+    }
+    if (body.deliveryMode !== undefined) {
+      tokenEntry.delivery_mode = body.deliveryMode;
+    }
     tokenEntry.last_used = new Date().toISOString();
+    const preferences = tokenEntry.preferences || {};
     
     saveTokens(tokens);
     
     console.log(`⚙️ Updated preferences for Expo token: ${token.substring(0, 20)}...`);
-    console.log(`   Enabled items: ${Object.keys(preferences).filter(k => preferences[k]).length}`);
-    console.log(`   Disabled items: ${Object.keys(preferences).filter(k => !preferences[k]).length}`);
+    console.log(`   Enabled items: ${Object.keys(preferences).filter(k => preferenceMatches(preferences[k])).length}`);
+    console.log(`   Disabled items: ${Object.keys(preferences).filter(k => !preferenceMatches(preferences[k])).length}`);
     
     return NextResponse.json({ 
       message: 'Expo preferences updated successfully',
       action: 'updated',
       storage: 'json',
-      enabledItems: Object.keys(preferences).filter(k => preferences[k]),
-      disabledItems: Object.keys(preferences).filter(k => !preferences[k])
+      enabledItems: Object.keys(preferences).filter(k => preferenceMatches(preferences[k])),
+      disabledItems: Object.keys(preferences).filter(k => !preferenceMatches(preferences[k])),
+      timeZone: tokenEntry.time_zone ?? null,
+      quietHours: tokenEntry.quiet_hours ?? null,
+      deliveryMode: tokenEntry.delivery_mode ?? 'per_item',
+      ignoredPreferences
     });
     
   } catch (error) {
@@ -232,6 +350,11 @@ export async function GET(req: NextRequest) {
         { status: 400 }
       );
     }
+
+    const blocked = await guardPublicRequest(req, 'get_preferences', token);
+    if (blocked) {
+      return blocked;
+    }
     
     // Validate token
     const tokenValidation = validateToken(token);
@@ -260,6 +383,9 @@ export async function GET(req: NextRequest) {
           const preferences = existingToken.preferences ? JSON.parse(existingToken.preferences) : {};
           return NextResponse.json({ 
             preferences,
+            timeZone: existingToken.time_zone ?? null,
+            quietHours: parseQuietHours(existingToken.quiet_hours),
+            deliveryMode: existingToken.delivery_mode ?? 'per_item',
             lastUpdated: existingToken.last_used,
             storage: 'database'
           });
@@ -300,6 +426,9 @@ export async function GET(req: NextRequest) {
     
     return NextResponse.json({ 
       preferences: tokenEntry.preferences || {},
+      timeZone: tokenEntry.time_zone ?? null,
+      quietHours: tokenEntry.quiet_hours ?? null,
+      deliveryMode: tokenEntry.delivery_mode ?? 'per_item',
       lastUpdated: tokenEntry.last_used,
       storage: 'json'
     });
@@ -0,0 +1,7 @@
+// Next.js runs register() once when the server starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { warnIfProxyUnconfigured } = await import('./lib/request-guard');
+    warnIfProxyUnconfigured();
+  }
+}
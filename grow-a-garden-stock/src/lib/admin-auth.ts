@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { hasScope, verifyAdminApiKey } from './admin-keys';
+import type { AdminApiKey, AdminScope } from './admin-keys';
+
+// Keys are sent as "Authorization: Bearer <key>" or "X-Admin-Key: <key>"
+function getRequestKey(req: NextRequest): string | null {
+  const authorization = req.headers.get('authorization');
+  if (authorization && authorization.toLowerCase().startsWith('bearer ')) {
+    return authorization.substring(7).trim();
+  }
+  return req.headers.get('x-admin-key')?.trim() || null;
+}
+
+export type AdminAuthResult =
+  | { authorized: true; apiKey: AdminApiKey }
+  | { authorized: false; response: NextResponse };
+
+/**
+ * Shared check for admin endpoints. Returns the key on success, or the
+ * 401/403 response the route should return as is.
+ */
+export async function authorizeAdmin(req: NextRequest, scope: AdminScope): Promise<AdminAuthResult> {
+  const key = getRequestKey(req);
+  if (!key) {
+    return {
+      authorized: false,
+      response: NextResponse.json(
+        { error: 'Unauthorized', details: 'An admin API key is required (Authorization: Bearer <key>)' },
+        { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } }
+      )
+    };
+  }
+
+  try {
+    const apiKey = await verifyAdminApiKey(key);
+    if (!apiKey) {
+      console.warn(`🔒 Rejected invalid admin API key for ${req.method} ${req.nextUrl.pathname}`);
+      return {
+        authorized: false,
+        response: NextResponse.json(
+          { error: 'Unauthorized', details: 'Invalid or revoked admin API key' },
+          { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } }
+        )
+      };
+    }
+
+    if (!hasScope(apiKey, scope)) {
+      console.warn(`🔒 Admin API key "${apiKey.name}" lacks scope ${scope} for ${req.method} ${req.nextUrl.pathname}`);
+      return {
+        authorized: false,
+        response: NextResponse.json(
+          { error: 'Forbidden', details: `This key does not have the ${scope} scope` },
+          { status: 403 }
+        )
+      };
+    }
+
+    return { authorized: true, apiKey };
+  } catch (error) {
+    console.error('Error verifying admin API key:', error);
+    return {
+      authorized: false,
+      response: NextResponse.json(
+        { error: 'Failed to verify admin API key' },
+        { status: 500 }
+      )
+    };
+  }
+}
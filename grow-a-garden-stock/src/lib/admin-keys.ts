@@ -0,0 +1,135 @@
+import { createHash, randomBytes } from 'crypto';
+import database from './database';
+import type { AdminApiKeyEntry } from './database';
+
+// Scopes an admin API key can be granted. '*' grants every scope, including future ones.
+export const ADMIN_SCOPES = ['push_tokens:read', 'push_tokens:delete', 'rate_limits:read', 'catalog:read', 'catalog:write', '*'] as const;
+export type AdminScope = typeof ADMIN_SCOPES[number];
+
+const KEY_PREFIX = 'gag_admin_';
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 6;
+
+export interface AdminApiKey {
+  id: number;
+  name: string;
+  keyPrefix: string;
+  scopes: AdminScope[];
+  createdAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  replacedBy: number | null;
+}
+
+export interface CreatedAdminApiKey {
+  key: string; // Only available at creation, store it somewhere safe
+  apiKey: AdminApiKey;
+}
+
+export function isAdminScope(scope: string): scope is AdminScope {
+  return (ADMIN_SCOPES as readonly string[]).includes(scope);
+}
+
+export function hashAdminApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+function toAdminApiKey(entry: AdminApiKeyEntry): AdminApiKey {
+  let scopes: AdminScope[] = [];
+  try {
+    scopes = (JSON.parse(entry.scopes) as string[]).filter(isAdminScope);
+  } catch (error) {
+    console.error(`❌ Error parsing scopes of admin API key ${entry.id}:`, error);
+  }
+  return {
+    id: entry.id!,
+    name: entry.name,
+    keyPrefix: entry.key_prefix,
+    scopes,
+    createdAt: entry.created_at,
+    lastUsedAt: entry.last_used_at,
+    revokedAt: entry.revoked_at,
+    replacedBy: entry.replaced_by
+  };
+}
+
+export function hasScope(apiKey: AdminApiKey, scope: AdminScope): boolean {
+  return apiKey.scopes.includes('*') || apiKey.scopes.includes(scope);
+}
+
+export async function createAdminApiKey(name: string, scopes: AdminScope[]): Promise<CreatedAdminApiKey> {
+  if (!name.trim()) {
+    throw new Error('Admin API key name is required');
+  }
+  if (scopes.length === 0) {
+    throw new Error('Admin API key needs at least one scope');
+  }
+
+  await database.initialize();
+  const key = KEY_PREFIX + randomBytes(32).toString('base64url');
+  const entry: AdminApiKeyEntry = {
+    name: name.trim(),
+    key_prefix: key.substring(0, DISPLAY_PREFIX_LENGTH),
+    key_hash: hashAdminApiKey(key),
+    scopes: JSON.stringify(Array.from(new Set(scopes))),
+    created_at: new Date().toISOString(),
+    last_used_at: null,
+    revoked_at: null,
+    replaced_by: null
+  };
+  const id = await database.insertAdminApiKey(entry);
+  return { key, apiKey: toAdminApiKey({ ...entry, id }) };
+}
+
+/**
+ * Replace a key with a new one that has the same name and scopes. The old
+ * key stops working immediately.
+ */
+export async function rotateAdminApiKey(id: number): Promise<CreatedAdminApiKey> {
+  await database.initialize();
+  const [existing] = await database.getAdminApiKeys({ id });
+  if (!existing) {
+    throw new Error(`Admin API key ${id} not found`);
+  }
+  if (existing.revoked_at) {
+    throw new Error(`Admin API key ${id} is already revoked`);
+  }
+
+  const created = await createAdminApiKey(existing.name, toAdminApiKey(existing).scopes);
+  await database.updateAdminApiKey(id, { revoked_at: new Date().toISOString(), replaced_by: created.apiKey.id });
+  return created;
+}
+
+export async function revokeAdminApiKey(id: number): Promise<void> {
+  await database.initialize();
+  const [existing] = await database.getAdminApiKeys({ id });
+  if (!existing) {
+    throw new Error(`Admin API key ${id} not found`);
+  }
+  if (!existing.revoked_at) {
+    await database.updateAdminApiKey(id, { revoked_at: new Date().toISOString() });
+  }
+}
+
+export async function listAdminApiKeys(): Promise<AdminApiKey[]> {
+  await database.initialize();
+  return (await database.getAdminApiKeys()).map(toAdminApiKey);
+}
+
+// Look up an active key by its secret. Returns null for unknown or revoked keys.
+export async function verifyAdminApiKey(key: string): Promise<AdminApiKey | null> {
+  if (!key.startsWith(KEY_PREFIX)) {
+    return null;
+  }
+
+  await database.initialize();
+  const [entry] = await database.getAdminApiKeys({ key_hash: hashAdminApiKey(key) });
+  if (!entry || entry.revoked_at) {
+    return null;
+  }
+
+  // Fire and forget - usage tracking must never fail a request
+  database.updateAdminApiKey(entry.id!, { last_used_at: new Date().toISOString() }).catch(error => {
+    console.error('Error recording admin API key usage:', error);
+  });
+  return toAdminApiKey(entry);
+}
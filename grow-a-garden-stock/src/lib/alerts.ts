@@ -0,0 +1,283 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Operational alerts for the people running the service (not app users).
+// Sinks are configured from the environment, see createConfiguredSinks.
+// Both are read on first use rather than at import, so settings from
+// .env.local apply whichever module happens to import this one first.
+function readAlertConfig() {
+  return {
+    // Repeat an alert that is still active after this long (0 disables reminders)
+    REMINDER_MS: parseInt(process.env.ALERT_REMINDER_MINUTES || '60') * 60 * 1000,
+    // A category is overdue when no update was accepted this long after its nextUpdate
+    MISSED_RESTOCK_GRACE_MS: parseInt(process.env.ALERT_MISSED_RESTOCK_GRACE_SECONDS || '120') * 1000,
+    // Categories that restock with new items every cycle. Cosmetics and the event
+    // shop can repeat identical stock, which is never accepted as an update.
+    MISSED_RESTOCK_CATEGORIES: (process.env.ALERT_MISSED_RESTOCK_CATEGORIES || 'seeds,gear,eggs')
+      .split(',').map(c => c.trim()).filter(Boolean),
+    // OneSignal failure rate over the window that raises an alert
+    PUSH_FAILURE_WINDOW_MS: parseInt(process.env.ALERT_PUSH_FAILURE_WINDOW_MINUTES || '10') * 60 * 1000,
+    PUSH_FAILURE_RATE: parseFloat(process.env.ALERT_PUSH_FAILURE_RATE || '0.5'),
+    PUSH_FAILURE_MIN_REQUESTS: parseInt(process.env.ALERT_PUSH_FAILURE_MIN_REQUESTS || '10')
+  };
+}
+
+let alertConfig: ReturnType<typeof readAlertConfig> | null = null;
+function getAlertConfig() {
+  alertConfig ??= readAlertConfig();
+  return alertConfig;
+}
+
+export type AlertSeverity = 'warning' | 'critical';
+
+export interface AlertNotice {
+  type: 'alert' | 'reminder' | 'recovery';
+  key: string; // Identifies the condition, e.g. "missed_restock:seeds"
+  severity: AlertSeverity;
+  title: string;
+  message: string;
+  timestamp: string; // When this notice was sent
+  raisedAt: string;
+  resolvedAt?: string;
+  durationSeconds?: number; // How long the condition lasted (reminders and recoveries)
+}
+
+export interface AlertSink {
+  name: string;
+  send(notice: AlertNotice): Promise<void>;
+}
+
+interface ActiveAlert {
+  severity: AlertSeverity;
+  title: string;
+  message: string;
+  raisedAt: number;
+  lastNotifiedAt: number;
+}
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+function formatHeadline(notice: AlertNotice): string {
+  const duration = notice.durationSeconds !== undefined ? ` (${formatDuration(notice.durationSeconds)})` : '';
+  switch (notice.type) {
+    case 'recovery':
+      return `✅ Resolved: ${notice.title}${duration}`;
+    case 'reminder':
+      return `⏰ Still active: ${notice.title}${duration}`;
+    default:
+      return `${notice.severity === 'critical' ? '🚨' : '⚠️'} ${notice.title}`;
+  }
+}
+
+function formatNotice(notice: AlertNotice): string {
+  return `${formatHeadline(notice)} - ${notice.message}`;
+}
+
+async function postJson(url: string, body: unknown) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(10000)
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+}
+
+// POSTs the notice as JSON to any URL
+export class WebhookAlertSink implements AlertSink {
+  readonly name = 'webhook';
+  constructor(private url: string) {}
+
+  async send(notice: AlertNotice) {
+    await postJson(this.url, notice);
+  }
+}
+
+// Posts to a Discord channel through a channel webhook
+export class DiscordAlertSink implements AlertSink {
+  readonly name = 'discord';
+  constructor(private webhookUrl: string) {}
+
+  async send(notice: AlertNotice) {
+    await postJson(this.webhookUrl, {
+      content: `**${formatHeadline(notice)}**\n${notice.message}`,
+      allowed_mentions: { parse: [] }
+    });
+  }
+}
+
+// Appends one line per notice to a local file
+export class LogFileAlertSink implements AlertSink {
+  readonly name = 'log';
+  constructor(private filePath: string) {}
+
+  async send(notice: AlertNotice) {
+    await fs.promises.appendFile(this.filePath, `[${notice.timestamp}] [${notice.key}] ${formatNotice(notice)}\n`, 'utf8');
+  }
+}
+
+// ALERT_WEBHOOK_URL, ALERT_DISCORD_WEBHOOK_URL and ALERT_LOG_PATH (default alerts.log, empty disables)
+function createConfiguredSinks(): AlertSink[] {
+  const sinks: AlertSink[] = [];
+  if (process.env.ALERT_WEBHOOK_URL) {
+    sinks.push(new WebhookAlertSink(process.env.ALERT_WEBHOOK_URL));
+  }
+  if (process.env.ALERT_DISCORD_WEBHOOK_URL) {
+    sinks.push(new DiscordAlertSink(process.env.ALERT_DISCORD_WEBHOOK_URL));
+  }
+  const logPath = process.env.ALERT_LOG_PATH ?? 'alerts.log';
+  if (logPath) {
+    sinks.push(new LogFileAlertSink(path.resolve(process.cwd(), logPath)));
+  }
+  return sinks;
+}
+
+class AlertManager {
+  private configuredSinks: AlertSink[] | null = null;
+  private active: Map<string, ActiveAlert> = new Map();
+  private pushOutcomes: Array<{ timestamp: number; success: boolean }> = [];
+  private monitoringSince: number | null = null;
+
+  private get sinks(): AlertSink[] {
+    this.configuredSinks ??= createConfiguredSinks();
+    return this.configuredSinks;
+  }
+
+  addSink(sink: AlertSink) {
+    this.sinks.push(sink);
+  }
+
+  getSinks(): string[] {
+    return this.sinks.map(sink => sink.name);
+  }
+
+  isActive(key: string): boolean {
+    return this.active.has(key);
+  }
+
+  /**
+   * Raise an alert. Raising one that is already active does nothing, apart
+   * from a reminder once REMINDER_MS has passed since the last notice.
+   */
+  raise(key: string, severity: AlertSeverity, title: string, message: string, timestamp: number = Date.now()) {
+    const existing = this.active.get(key);
+    if (existing) {
+      existing.message = message;
+      if (getAlertConfig().REMINDER_MS > 0 && timestamp - existing.lastNotifiedAt >= getAlertConfig().REMINDER_MS) {
+        existing.lastNotifiedAt = timestamp;
+        this.dispatch({
+          type: 'reminder',
+          key,
+          timestamp: new Date(timestamp).toISOString(),
+          severity: existing.severity,
+          title: existing.title,
+          message,
+          raisedAt: new Date(existing.raisedAt).toISOString(),
+          durationSeconds: Math.round((timestamp - existing.raisedAt) / 1000)
+        });
+      }
+      return;
+    }
+
+    this.active.set(key, { severity, title, message, raisedAt: timestamp, lastNotifiedAt: timestamp });
+    const raisedAt = new Date(timestamp).toISOString();
+    this.dispatch({ type: 'alert', key, severity, title, message, timestamp: raisedAt, raisedAt });
+  }
+
+  // Clear an active alert and send a recovery notice. Does nothing if it is not active.
+  resolve(key: string, message: string, timestamp: number = Date.now()) {
+    const existing = this.active.get(key);
+    if (!existing) {
+      return;
+    }
+
+    this.active.delete(key);
+    this.dispatch({
+      type: 'recovery',
+      key,
+      timestamp: new Date(timestamp).toISOString(),
+      severity: existing.severity,
+      title: existing.title,
+      message,
+      raisedAt: new Date(existing.raisedAt).toISOString(),
+      resolvedAt: new Date(timestamp).toISOString(),
+      durationSeconds: Math.round((timestamp - existing.raisedAt) / 1000)
+    });
+  }
+
+  /**
+   * Alert for categories whose nextUpdate passed more than the grace period
+   * ago without an accepted update. Time before the first check counts as
+   * grace too, so a restart with stale stock data does not alert right away.
+   */
+  checkMissedRestocks(categories: Record<string, { nextUpdate: string; lastUpdated: string }>, now: number) {
+    if (this.monitoringSince === null) {
+      this.monitoringSince = now;
+    }
+
+    for (const category of getAlertConfig().MISSED_RESTOCK_CATEGORIES) {
+      const data = categories[category];
+      if (!data) continue;
+
+      const key = `missed_restock:${category}`;
+      const dueAt = Math.max(new Date(data.nextUpdate).getTime(), this.monitoringSince);
+      if (now > dueAt + getAlertConfig().MISSED_RESTOCK_GRACE_MS) {
+        this.raise(key, 'critical', `Missed ${category} restock`,
+          `No ${category} update accepted since ${data.lastUpdated} (restock was due at ${data.nextUpdate})`, now);
+      } else {
+        this.resolve(key, `${category} updates resumed (last update ${data.lastUpdated})`, now);
+      }
+    }
+  }
+
+  // Outcome of one OneSignal request after retries; raises an alert when the failure rate spikes
+  recordPushOutcome(success: boolean, timestamp: number = Date.now()) {
+    this.pushOutcomes.push({ timestamp, success });
+    const cutoff = timestamp - getAlertConfig().PUSH_FAILURE_WINDOW_MS;
+    while (this.pushOutcomes.length > 0 && this.pushOutcomes[0].timestamp <= cutoff) {
+      this.pushOutcomes.shift();
+    }
+
+    const total = this.pushOutcomes.length;
+    if (total < getAlertConfig().PUSH_FAILURE_MIN_REQUESTS) {
+      return;
+    }
+
+    const failures = this.pushOutcomes.filter(outcome => !outcome.success).length;
+    const failureRate = failures / total;
+    const windowMinutes = Math.round(getAlertConfig().PUSH_FAILURE_WINDOW_MS / 60000);
+    const summary = `${failures}/${total} OneSignal requests failed in the last ${windowMinutes} minutes (${Math.round(failureRate * 100)}%)`;
+
+    if (failureRate >= getAlertConfig().PUSH_FAILURE_RATE) {
+      this.raise('push_failure_rate', 'critical', 'Push notification failures', summary, timestamp);
+    } else if (failureRate < getAlertConfig().PUSH_FAILURE_RATE / 2) {
+      // Only recover well below the threshold so a rate hovering around it does not flap
+      this.resolve('push_failure_rate', summary, timestamp);
+    }
+  }
+
+  private dispatch(notice: AlertNotice) {
+    const line = formatNotice(notice);
+    if (notice.type === 'recovery') {
+      console.log(line);
+    } else {
+      console.warn(line);
+    }
+
+    for (const sink of this.sinks) {
+      // Alert delivery must never block or break the stock manager
+      sink.send(notice).catch(error => {
+        console.error(`❌ Failed to deliver alert ${notice.key} via ${sink.name} sink:`, error);
+      });
+    }
+  }
+}
+
+export const alertManager = new AlertManager();
@@ -0,0 +1,48 @@
+// Source of the current time for timing logic, so it can be controlled when
+// replaying recorded messages or checking edge cases by hand.
+
+export interface Clock {
+  now(): number; // Milliseconds since epoch, like Date.now()
+  date(): Date;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  date: () => new Date()
+};
+
+/**
+ * Clock that only moves when told to. Starts at the given time (default: the
+ * real current time).
+ */
+export class FakeClock implements Clock {
+  private currentMs: number;
+
+  constructor(start: number | Date | string = Date.now()) {
+    this.currentMs = FakeClock.toMs(start);
+  }
+
+  now(): number {
+    return this.currentMs;
+  }
+
+  date(): Date {
+    return new Date(this.currentMs);
+  }
+
+  set(time: number | Date | string) {
+    this.currentMs = FakeClock.toMs(time);
+  }
+
+  advance(ms: number) {
+    this.currentMs += ms;
+  }
+
+  private static toMs(time: number | Date | string): number {
+    const ms = typeof time === 'number' ? time : new Date(time).getTime();
+    if (isNaN(ms)) {
+      throw new Error(`Invalid time for FakeClock: ${time}`);
+    }
+    return ms;
+  }
+}
@@ -16,6 +16,139 @@ export interface PushTokenEntry {
   failure_count?: number;
   last_failure?: string;
   onesignal_player_id?: string;
+  time_zone?: string | null; // IANA name, quiet hours are read in this zone (UTC when unset)
+  quiet_hours?: string | null; // JSON string, see quiet-hours.ts
+  delivery_mode?: DeliveryMode | null; // per_item when unset
+}
+
+// How a device receives item alerts: one push per item, or one push per restock
+export const DELIVERY_MODES = ['per_item', 'digest'] as const;
+export type DeliveryMode = typeof DELIVERY_MODES[number];
+
+// A device's setting for one item or category. Plain booleans are the original
+// format, the object form adds a minimum quantity for item alerts.
+export type ItemPreference = boolean | { enabled: boolean; minQuantity?: number };
+
+// Whether a stored preference asks for an alert, at the given quantity when there is one
+export function preferenceMatches(preference: unknown, quantity?: number): boolean {
+  if (preference === true) {
+    return true;
+  }
+  if (!preference || typeof preference !== 'object') {
+    return false;
+  }
+
+  const { enabled, minQuantity } = preference as { enabled?: unknown; minQuantity?: unknown };
+  if (enabled !== true) {
+    return false;
+  }
+  return quantity === undefined || typeof minQuantity !== 'number' || quantity >= minQuantity;
+}
+
+export interface StockHistoryEntry {
+  id?: number;
+  stock_id: string;
+  category: string;
+  source: string;
+  items: string; // JSON string
+  recorded_at: string;
+}
+
+export interface StockHistoryFilters {
+  category?: string;
+  itemId?: string; // Only snapshots that contain this normalized item ID
+  from?: string;
+  to?: string;
+  limit?: number;
+  cursor?: number; // Return entries with an id lower than this (newest first)
+}
+
+export interface SourceReportEntry {
+  id?: number;
+  category: string;
+  cycle_index: number;
+  source: string;
+  items: string; // JSON string
+  reported_at: string;
+}
+
+export interface ConsensusResultEntry {
+  category: string;
+  cycle_index: number;
+  status: 'single_source' | 'agreed' | 'disagreed';
+  agreeing_sources: string; // JSON string
+  disagreeing_sources: string; // JSON string
+  differences: string; // JSON string
+  updated_at: string;
+}
+
+export interface RestockCycleEntry {
+  category: string;
+  cycle_index: number;
+  cycle_start: string;
+  cycle_end: string;
+  status: 'open' | 'delivered' | 'empty';
+  confirming_sources: string; // JSON string
+  reporting_sources: string; // JSON string
+  items: string | null; // JSON string, null until a report is accepted
+  delivered_by: string | null;
+  first_reported_at: string | null;
+  updated_at: string;
+}
+
+export interface RestockCycleFilters {
+  category?: string;
+  status?: RestockCycleEntry['status'];
+  from?: string; // Only cycles starting at or after this time
+  limit?: number;
+}
+
+export interface AdminApiKeyEntry {
+  id?: number;
+  name: string;
+  key_prefix: string; // First characters of the key, to recognise it in listings
+  key_hash: string; // SHA-256 of the full key, the key itself is never stored
+  scopes: string; // JSON string
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  replaced_by: number | null; // Key created when this one was rotated
+}
+
+export interface PendingItemEntry {
+  item_id: string;
+  name: string;
+  category: string;
+  source: string; // Source that reported the item first
+  sample_quantity: number; // Quantity in the latest report
+  first_seen: string;
+  last_seen: string;
+  times_seen: number;
+  status: 'pending' | 'approved' | 'rejected';
+  reviewed_at: string | null;
+}
+
+export interface RateLimitEntry {
+  key: string; // Limiter bucket, e.g. "register:ip:1.2.3.4"
+  hits: string; // JSON array of request times (ms) inside the window
+  expires_at: number; // ms, when the newest hit leaves the window
+}
+
+// Item alert held back by quiet hours until the device's morning summary
+export interface DeferredNotificationEntry {
+  id?: number;
+  token: string;
+  item_name: string;
+  category: string;
+  quantity: number;
+  rarity: string | null;
+  created_at: string;
+}
+
+export interface SourceReportFilters {
+  category?: string;
+  from?: string; // Only reports received at or after this time
+  limit?: number;
 }
 
 class Database {
@@ -32,16 +165,17 @@ class Database {
   private readonly CACHE_DURATION = 30000; // 30 seconds cache
 
   async initialize(): Promise<void> {
+    // If initialization is in progress (or done), wait for it.
+    // Checked before this.db, which is set before the tables exist.
+    if (this.initializationPromise) {
+      return this.initializationPromise;
+    }
+
     // If already initialized, return immediately
     if (this.db) {
       return Promise.resolve();
     }
 
-    // If initialization is in progress, wait for it
-    if (this.initializationPromise) {
-      return this.initializationPromise;
-    }
-
     // Start initialization
     this.initializationPromise = this._initialize();
     return this.initializationPromise;
@@ -152,37 +286,217 @@ class Database {
   }
 
   private async createTables(): Promise<void> {
-    return new Promise((resolve, reject) => {
+    const createTableSQL = `
+      CREATE TABLE IF NOT EXISTS push_tokens (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        token TEXT UNIQUE NOT NULL,
+        created_at TEXT NOT NULL,
+        last_used TEXT NOT NULL,
+        is_active BOOLEAN DEFAULT 1,
+        device_type TEXT,
+        app_version TEXT,
+        preferences TEXT,
+        failure_count INTEGER DEFAULT 0,
+        last_failure TEXT,
+        onesignal_player_id TEXT,
+        time_zone TEXT,
+        quiet_hours TEXT,
+        delivery_mode TEXT
+      )
+    `;
+
+    // Columns added to push_tokens after its first release, for databases created before them
+    const addedTokenColumns: Record<string, string> = {
+      time_zone: 'TEXT',
+      quiet_hours: 'TEXT',
+      delivery_mode: 'TEXT'
+    };
+
+    // Every accepted stock snapshot, newest rows have the highest id
+    const createStockHistorySQL = `
+      CREATE TABLE IF NOT EXISTS stock_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        stock_id TEXT NOT NULL,
+        category TEXT NOT NULL,
+        source TEXT NOT NULL,
+        items TEXT NOT NULL,
+        recorded_at TEXT NOT NULL
+      )
+    `;
+
+    const createStockHistoryIndexSQL = `
+      CREATE INDEX IF NOT EXISTS idx_stock_history_category_recorded
+      ON stock_history (category, recorded_at)
+    `;
+
+    // What each source reported per restock cycle (latest report per source wins)
+    const createSourceReportsSQL = `
+      CREATE TABLE IF NOT EXISTS source_reports (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        category TEXT NOT NULL,
+        cycle_index INTEGER NOT NULL,
+        source TEXT NOT NULL,
+        items TEXT NOT NULL,
+        reported_at TEXT NOT NULL,
+        UNIQUE (category, cycle_index, source)
+      )
+    `;
+
+    // Cross-source comparison outcome per restock cycle
+    const createConsensusResultsSQL = `
+      CREATE TABLE IF NOT EXISTS consensus_results (
+        category TEXT NOT NULL,
+        cycle_index INTEGER NOT NULL,
+        status TEXT NOT NULL,
+        agreeing_sources TEXT NOT NULL,
+        disagreeing_sources TEXT NOT NULL,
+        differences TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (category, cycle_index)
+      )
+    `;
+
+    // One row per category and restock cycle, including cycles nobody reported
+    const createRestockCyclesSQL = `
+      CREATE TABLE IF NOT EXISTS restock_cycles (
+        category TEXT NOT NULL,
+        cycle_index INTEGER NOT NULL,
+        cycle_start TEXT NOT NULL,
+        cycle_end TEXT NOT NULL,
+        status TEXT NOT NULL,
+        confirming_sources TEXT NOT NULL,
+        reporting_sources TEXT NOT NULL,
+        items TEXT,
+        delivered_by TEXT,
+        first_reported_at TEXT,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (category, cycle_index)
+      )
+    `;
+
+    const createAdminApiKeysSQL = `
+      CREATE TABLE IF NOT EXISTS admin_api_keys (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        key_prefix TEXT NOT NULL,
+        key_hash TEXT UNIQUE NOT NULL,
+        scopes TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        last_used_at TEXT,
+        revoked_at TEXT,
+        replaced_by INTEGER
+      )
+    `;
+
+    // Items sources reported that are not in the item catalog yet
+    const createPendingItemsSQL = `
+      CREATE TABLE IF NOT EXISTS pending_items (
+        item_id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        category TEXT NOT NULL,
+        source TEXT NOT NULL,
+        sample_quantity INTEGER NOT NULL,
+        first_seen TEXT NOT NULL,
+        last_seen TEXT NOT NULL,
+        times_seen INTEGER NOT NULL DEFAULT 1,
+        status TEXT NOT NULL DEFAULT 'pending',
+        reviewed_at TEXT
+      )
+    `;
+
+    // Only used when RATE_LIMIT_PERSIST is enabled, see rate-limiter.ts
+    const createRateLimitsSQL = `
+      CREATE TABLE IF NOT EXISTS rate_limits (
+        key TEXT PRIMARY KEY,
+        hits TEXT NOT NULL,
+        expires_at INTEGER NOT NULL
+      )
+    `;
+
+    const createDeferredNotificationsSQL = `
+      CREATE TABLE IF NOT EXISTS deferred_notifications (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        token TEXT NOT NULL,
+        item_name TEXT NOT NULL,
+        category TEXT NOT NULL,
+        quantity INTEGER NOT NULL,
+        rarity TEXT,
+        created_at TEXT NOT NULL
+      )
+    `;
+
+    const createDeferredNotificationsIndexSQL = `
+      CREATE INDEX IF NOT EXISTS idx_deferred_notifications_token
+      ON deferred_notifications (token)
+    `;
+
+    const tableStatements = [
+      createTableSQL,
+      createStockHistorySQL,
+      createStockHistoryIndexSQL,
+      createSourceReportsSQL,
+      createConsensusResultsSQL,
+      createRestockCyclesSQL,
+      createAdminApiKeysSQL,
+      createRateLimitsSQL,
+      createPendingItemsSQL,
+      createDeferredNotificationsSQL,
+      createDeferredNotificationsIndexSQL
+    ];
+
+    for (const sql of tableStatements) {
+      await new Promise<void>((resolve, reject) => {
+        if (!this.db) {
+          reject(new Error('Database not initialized'));
+          return;
+        }
+
+        this.db!.run(sql, (err) => {
+          if (err) {
+            console.error('Error creating table:', err);
+            reject(err);
+            return;
+          }
+          resolve();
+        });
+      });
+    }
+
+    await this.addMissingColumns('push_tokens', addedTokenColumns);
+  }
+
+  private async addMissingColumns(table: string, columns: Record<string, string>): Promise<void> {
+    const existing = await new Promise<Set<string>>((resolve, reject) => {
       if (!this.db) {
         reject(new Error('Database not initialized'));
         return;
       }
 
-      const createTableSQL = `
-        CREATE TABLE IF NOT EXISTS push_tokens (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          token TEXT UNIQUE NOT NULL,
-          created_at TEXT NOT NULL,
-          last_used TEXT NOT NULL,
-          is_active BOOLEAN DEFAULT 1,
-          device_type TEXT,
-          app_version TEXT,
-          preferences TEXT,
-          failure_count INTEGER DEFAULT 0,
-          last_failure TEXT,
-          onesignal_player_id TEXT
-        )
-      `;
-
-      this.db!.run(createTableSQL, (err) => {
+      this.db!.all(`PRAGMA table_info(${table})`, (err, rows) => {
         if (err) {
-          console.error('Error creating table:', err);
+          console.error(`Error reading ${table} columns:`, err);
           reject(err);
           return;
         }
-        resolve();
+        resolve(new Set(rows.map(row => (row as { name: string }).name)));
       });
     });
+
+    for (const [column, type] of Object.entries(columns)) {
+      if (existing.has(column)) continue;
+
+      await new Promise<void>((resolve, reject) => {
+        this.db!.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`, (err) => {
+          if (err) {
+            console.error(`Error adding ${table}.${column}:`, err);
+            reject(err);
+            return;
+          }
+          console.log(`🔧 Added column ${table}.${column}`);
+          resolve();
+        });
+      });
+    }
   }
 
   async migrateFromJSON(): Promise<void> {
@@ -234,8 +548,8 @@ class Database {
 
       const sql = `
         INSERT OR REPLACE INTO push_tokens 
-        (token, created_at, last_used, is_active, device_type, app_version, preferences, failure_count, last_failure, onesignal_player_id)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        (token, created_at, last_used, is_active, device_type, app_version, preferences, failure_count, last_failure, onesignal_player_id, time_zone, quiet_hours, delivery_mode)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `;
 
       this.db!.run(sql, [
@@ -248,7 +562,10 @@ class Database {
         token.preferences,
         token.failure_count || 0,
         token.last_failure,
-        token.onesignal_player_id
+        token.onesignal_player_id,
+        token.time_zone ?? null,
+        token.quiet_hours ?? null,
+        token.delivery_mode ?? null
       ], (err) => {
         if (err) {
           console.error('Error inserting token:', err);
@@ -268,7 +585,7 @@ class Database {
       }
 
       const setClauses: string[] = [];
-      const values: (string | number | boolean)[] = [];
+      const values: (string | number | boolean | null)[] = [];
 
       if (updates.last_used !== undefined) {
         setClauses.push('last_used = ?');
@@ -294,6 +611,19 @@ class Database {
         setClauses.push('onesignal_player_id = ?');
         values.push(updates.onesignal_player_id);
       }
+      // null clears the setting
+      if (updates.time_zone !== undefined) {
+        setClauses.push('time_zone = ?');
+        values.push(updates.time_zone);
+      }
+      if (updates.quiet_hours !== undefined) {
+        setClauses.push('quiet_hours = ?');
+        values.push(updates.quiet_hours);
+      }
+      if (updates.delivery_mode !== undefined) {
+        setClauses.push('delivery_mode = ?');
+        values.push(updates.delivery_mode);
+      }
 
       if (setClauses.length === 0) {
         resolve();
@@ -390,7 +720,10 @@ class Database {
             preferences: rowData.preferences as string | undefined,
             failure_count: rowData.failure_count as number | undefined,
             last_failure: rowData.last_failure as string | undefined,
-            onesignal_player_id: rowData.onesignal_player_id as string | undefined
+            onesignal_player_id: rowData.onesignal_player_id as string | undefined,
+            time_zone: rowData.time_zone as string | null,
+            quiet_hours: rowData.quiet_hours as string | null,
+            delivery_mode: rowData.delivery_mode === 'digest' ? 'digest' : 'per_item'
           };
         });
 
@@ -399,26 +732,13 @@ class Database {
     });
   }
 
-  async getTokensForItem(itemName: string): Promise<PushTokenEntry[]> {
-    const tokens = await this.getTokens({ is_active: true });
-    return tokens.filter(token => {
-      if (!token.preferences) return false;
-      try {
-        const prefs = JSON.parse(token.preferences);
-        return prefs[itemName] === true;
-      } catch {
-        return false;
-      }
-    });
-  }
-
   async getTokensForCategory(categoryName: string): Promise<PushTokenEntry[]> {
     const tokens = await this.getTokens({ is_active: true });
     return tokens.filter(token => {
       if (!token.preferences) return false;
       try {
         const prefs = JSON.parse(token.preferences);
-        return prefs[categoryName] === true;
+        return preferenceMatches(prefs[categoryName]);
       } catch {
         return false;
       }
@@ -432,7 +752,7 @@ class Database {
       try {
         const prefs = JSON.parse(token.preferences);
         // Check for both "weather" and "Weather" (case insensitive)
-        return prefs["weather"] === true || prefs["Weather"] === true;
+        return preferenceMatches(prefs["weather"]) || preferenceMatches(prefs["Weather"]);
       } catch {
         return false;
       }
@@ -447,6 +767,793 @@ class Database {
     });
   }
 
+  async insertStockHistory(entry: StockHistoryEntry): Promise<void> {
+    return this.queueOperation(() => this.executeWithRetry(() => new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const sql = `
+        INSERT INTO stock_history (stock_id, category, source, items, recorded_at)
+        VALUES (?, ?, ?, ?, ?)
+      `;
+
+      this.db!.run(sql, [
+        entry.stock_id,
+        entry.category,
+        entry.source,
+        entry.items,
+        entry.recorded_at
+      ], (err) => {
+        if (err) {
+          console.error('Error inserting stock history:', err);
+          reject(err);
+          return;
+        }
+        resolve();
+      });
+    })));
+  }
+
+  async getStockHistory(filters?: StockHistoryFilters): Promise<StockHistoryEntry[]> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      let sql = 'SELECT * FROM stock_history';
+      const conditions: string[] = [];
+      const values: (string | number)[] = [];
+
+      if (filters?.category) {
+        conditions.push('category = ?');
+        values.push(filters.category);
+      }
+
+      if (filters?.itemId) {
+        // Items are stored as JSON, match the serialized id field (escape LIKE wildcards)
+        conditions.push("items LIKE ? ESCAPE '\\'");
+        values.push(`%"id":"${filters.itemId.replace(/[\\%_]/g, '\\$&')}"%`);
+      }
+
+      if (filters?.from) {
+        conditions.push('recorded_at >= ?');
+        values.push(filters.from);
+      }
+
+      if (filters?.to) {
+        conditions.push('recorded_at <= ?');
+        values.push(filters.to);
+      }
+
+      if (filters?.cursor !== undefined) {
+        conditions.push('id < ?');
+        values.push(filters.cursor);
+      }
+
+      if (conditions.length > 0) {
+        sql += ' WHERE ' + conditions.join(' AND ');
+      }
+
+      sql += ' ORDER BY id DESC';
+
+      if (filters?.limit !== undefined) {
+        sql += ' LIMIT ?';
+        values.push(filters.limit);
+      }
+
+      this.db!.all(sql, values, (err, rows) => {
+        if (err) {
+          console.error('Error getting stock history:', err);
+          reject(err);
+          return;
+        }
+
+        const entries: StockHistoryEntry[] = rows.map((row: unknown) => {
+          const rowData = row as { [key: string]: unknown };
+          return {
+            id: rowData.id as number,
+            stock_id: rowData.stock_id as string,
+            category: rowData.category as string,
+            source: rowData.source as string,
+            items: rowData.items as string,
+            recorded_at: rowData.recorded_at as string
+          };
+        });
+
+        resolve(entries);
+      });
+    });
+  }
+
+  // Lightweight variant of getStockHistory that only loads timestamps
+  async getStockHistoryTimes(category: string, from?: string): Promise<string[]> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      let sql = 'SELECT recorded_at FROM stock_history WHERE category = ?';
+      const values: string[] = [category];
+
+      if (from) {
+        sql += ' AND recorded_at >= ?';
+        values.push(from);
+      }
+
+      sql += ' ORDER BY recorded_at ASC';
+
+      this.db!.all(sql, values, (err, rows) => {
+        if (err) {
+          console.error('Error getting stock history times:', err);
+          reject(err);
+          return;
+        }
+
+        resolve(rows.map((row: unknown) => (row as { recorded_at: string }).recorded_at));
+      });
+    });
+  }
+
+  async upsertSourceReport(entry: SourceReportEntry): Promise<void> {
+    return this.queueOperation(() => this.executeWithRetry(() => new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const sql = `
+        INSERT INTO source_reports (category, cycle_index, source, items, reported_at)
+        VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT (category, cycle_index, source)
+        DO UPDATE SET items = excluded.items, reported_at = excluded.reported_at
+      `;
+
+      this.db!.run(sql, [
+        entry.category,
+        entry.cycle_index,
+        entry.source,
+        entry.items,
+        entry.reported_at
+      ], (err) => {
+        if (err) {
+          console.error('Error saving source report:', err);
+          reject(err);
+          return;
+        }
+        resolve();
+      });
+    })));
+  }
+
+  async getSourceReports(filters?: SourceReportFilters): Promise<SourceReportEntry[]> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      let sql = 'SELECT * FROM source_reports';
+      const conditions: string[] = [];
+      const values: (string | number)[] = [];
+
+      if (filters?.category) {
+        conditions.push('category = ?');
+        values.push(filters.category);
+      }
+
+      if (filters?.from) {
+        conditions.push('reported_at >= ?');
+        values.push(filters.from);
+      }
+
+      if (conditions.length > 0) {
+        sql += ' WHERE ' + conditions.join(' AND ');
+      }
+
+      sql += ' ORDER BY cycle_index DESC, reported_at ASC';
+
+      if (filters?.limit !== undefined) {
+        sql += ' LIMIT ?';
+        values.push(filters.limit);
+      }
+
+      this.db!.all(sql, values, (err, rows) => {
+        if (err) {
+          console.error('Error getting source reports:', err);
+          reject(err);
+          return;
+        }
+
+        const entries: SourceReportEntry[] = rows.map((row: unknown) => {
+          const rowData = row as { [key: string]: unknown };
+          return {
+            id: rowData.id as number,
+            category: rowData.category as string,
+            cycle_index: rowData.cycle_index as number,
+            source: rowData.source as string,
+            items: rowData.items as string,
+            reported_at: rowData.reported_at as string
+          };
+        });
+
+        resolve(entries);
+      });
+    });
+  }
+
+  async upsertConsensusResult(entry: ConsensusResultEntry): Promise<void> {
+    return this.queueOperation(() => this.executeWithRetry(() => new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const sql = `
+        INSERT OR REPLACE INTO consensus_results
+        (category, cycle_index, status, agreeing_sources, disagreeing_sources, differences, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `;
+
+      this.db!.run(sql, [
+        entry.category,
+        entry.cycle_index,
+        entry.status,
+        entry.agreeing_sources,
+        entry.disagreeing_sources,
+        entry.differences,
+        entry.updated_at
+      ], (err) => {
+        if (err) {
+          console.error('Error saving consensus result:', err);
+          reject(err);
+          return;
+        }
+        resolve();
+      });
+    })));
+  }
+
+  async getConsensusResults(filters?: SourceReportFilters): Promise<ConsensusResultEntry[]> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      let sql = 'SELECT * FROM consensus_results';
+      const conditions: string[] = [];
+      const values: (string | number)[] = [];
+
+      if (filters?.category) {
+        conditions.push('category = ?');
+        values.push(filters.category);
+      }
+
+      if (filters?.from) {
+        conditions.push('updated_at >= ?');
+        values.push(filters.from);
+      }
+
+      if (conditions.length > 0) {
+        sql += ' WHERE ' + conditions.join(' AND ');
+      }
+
+      sql += ' ORDER BY cycle_index DESC';
+
+      if (filters?.limit !== undefined) {
+        sql += ' LIMIT ?';
+        values.push(filters.limit);
+      }
+
+      this.db!.all(sql, values, (err, rows) => {
+        if (err) {
+          console.error('Error getting consensus results:', err);
+          reject(err);
+          return;
+        }
+
+        const entries: ConsensusResultEntry[] = rows.map((row: unknown) => {
+          const rowData = row as { [key: string]: unknown };
+          return {
+            category: rowData.category as string,
+            cycle_index: rowData.cycle_index as number,
+            status: rowData.status as ConsensusResultEntry['status'],
+            agreeing_sources: rowData.agreeing_sources as string,
+            disagreeing_sources: rowData.disagreeing_sources as string,
+            differences: rowData.differences as string,
+            updated_at: rowData.updated_at as string
+          };
+        });
+
+        resolve(entries);
+      });
+    });
+  }
+
+  async upsertRestockCycle(entry: RestockCycleEntry): Promise<void> {
+    return this.queueOperation(() => this.executeWithRetry(() => new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const sql = `
+        INSERT OR REPLACE INTO restock_cycles
+        (category, cycle_index, cycle_start, cycle_end, status, confirming_sources, reporting_sources, items, delivered_by, first_reported_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `;
+
+      this.db!.run(sql, [
+        entry.category,
+        entry.cycle_index,
+        entry.cycle_start,
+        entry.cycle_end,
+        entry.status,
+        entry.confirming_sources,
+        entry.reporting_sources,
+        entry.items,
+        entry.delivered_by,
+        entry.first_reported_at,
+        entry.updated_at
+      ], (err) => {
+        if (err) {
+          console.error('Error saving restock cycle:', err);
+          reject(err);
+          return;
+        }
+        resolve();
+      });
+    })));
+  }
+
+  async getRestockCycles(filters?: RestockCycleFilters): Promise<RestockCycleEntry[]> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      let sql = 'SELECT * FROM restock_cycles';
+      const conditions: string[] = [];
+      const values: (string | number)[] = [];
+
+      if (filters?.category) {
+        conditions.push('category = ?');
+        values.push(filters.category);
+      }
+
+      if (filters?.status) {
+        conditions.push('status = ?');
+        values.push(filters.status);
+      }
+
+      if (filters?.from) {
+        conditions.push('cycle_start >= ?');
+        values.push(filters.from);
+      }
+
+      if (conditions.length > 0) {
+        sql += ' WHERE ' + conditions.join(' AND ');
+      }
+
+      sql += ' ORDER BY cycle_start DESC, category ASC';
+
+      if (filters?.limit !== undefined) {
+        sql += ' LIMIT ?';
+        values.push(filters.limit);
+      }
+
+      this.db!.all(sql, values, (err, rows) => {
+        if (err) {
+          console.error('Error getting restock cycles:', err);
+          reject(err);
+          return;
+        }
+
+        const entries: RestockCycleEntry[] = rows.map((row: unknown) => {
+          const rowData = row as { [key: string]: unknown };
+          return {
+            category: rowData.category as string,
+            cycle_index: rowData.cycle_index as number,
+            cycle_start: rowData.cycle_start as string,
+            cycle_end: rowData.cycle_end as string,
+            status: rowData.status as RestockCycleEntry['status'],
+            confirming_sources: rowData.confirming_sources as string,
+            reporting_sources: rowData.reporting_sources as string,
+            items: rowData.items as string | null,
+            delivered_by: rowData.delivered_by as string | null,
+            first_reported_at: rowData.first_reported_at as string | null,
+            updated_at: rowData.updated_at as string
+          };
+        });
+
+        resolve(entries);
+      });
+    });
+  }
+
+  async insertAdminApiKey(entry: AdminApiKeyEntry): Promise<number> {
+    return this.queueOperation(() => this.executeWithRetry(() => new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const sql = `
+        INSERT INTO admin_api_keys (name, key_prefix, key_hash, scopes, created_at, last_used_at, revoked_at, replaced_by)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `;
+
+      this.db!.run(sql, [
+        entry.name,
+        entry.key_prefix,
+        entry.key_hash,
+        entry.scopes,
+        entry.created_at,
+        entry.last_used_at,
+        entry.revoked_at,
+        entry.replaced_by
+      ], function(err) {
+        if (err) {
+          console.error('Error inserting admin API key:', err);
+          reject(err);
+          return;
+        }
+        resolve(this.lastID);
+      });
+    })));
+  }
+
+  async updateAdminApiKey(id: number, updates: Partial<Pick<AdminApiKeyEntry, 'last_used_at' | 'revoked_at' | 'replaced_by'>>): Promise<void> {
+    const fields = Object.keys(updates) as (keyof typeof updates)[];
+    if (fields.length === 0) {
+      return;
+    }
+
+    return this.queueOperation(() => this.executeWithRetry(() => new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const sql = `UPDATE admin_api_keys SET ${fields.map(field => `${field} = ?`).join(', ')} WHERE id = ?`;
+
+      this.db!.run(sql, [...fields.map(field => updates[field] ?? null), id], (err) => {
+        if (err) {
+          console.error('Error updating admin API key:', err);
+          reject(err);
+          return;
+        }
+        resolve();
+      });
+    })));
+  }
+
+  async getAdminApiKeys(filters?: { id?: number; key_hash?: string; name?: string }): Promise<AdminApiKeyEntry[]> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      let sql = 'SELECT * FROM admin_api_keys';
+      const conditions: string[] = [];
+      const values: (string | number)[] = [];
+
+      if (filters?.id !== undefined) {
+        conditions.push('id = ?');
+        values.push(filters.id);
+      }
+
+      if (filters?.key_hash) {
+        conditions.push('key_hash = ?');
+        values.push(filters.key_hash);
+      }
+
+      if (filters?.name) {
+        conditions.push('name = ?');
+        values.push(filters.name);
+      }
+
+      if (conditions.length > 0) {
+        sql += ' WHERE ' + conditions.join(' AND ');
+      }
+
+      sql += ' ORDER BY id ASC';
+
+      this.db!.all(sql, values, (err, rows) => {
+        if (err) {
+          console.error('Error getting admin API keys:', err);
+          reject(err);
+          return;
+        }
+
+        const entries: AdminApiKeyEntry[] = rows.map((row: unknown) => {
+          const rowData = row as { [key: string]: unknown };
+          return {
+            id: rowData.id as number,
+            name: rowData.name as string,
+            key_prefix: rowData.key_prefix as string,
+            key_hash: rowData.key_hash as string,
+            scopes: rowData.scopes as string,
+            created_at: rowData.created_at as string,
+            last_used_at: rowData.last_used_at as string | null,
+            revoked_at: rowData.revoked_at as string | null,
+            replaced_by: rowData.replaced_by as number | null
+          };
+        });
+
+        resolve(entries);
+      });
+    });
+  }
+
+  // Insert a newly seen item, or bump last_seen and the sample of a known one
+  async recordPendingItem(entry: Omit<PendingItemEntry, 'times_seen' | 'status' | 'reviewed_at'>): Promise<void> {
+    return this.queueOperation(() => this.executeWithRetry(() => new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const sql = `
+        INSERT INTO pending_items (item_id, name, category, source, sample_quantity, first_seen, last_seen)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(item_id) DO UPDATE SET
+          sample_quantity = excluded.sample_quantity,
+          last_seen = excluded.last_seen,
+          times_seen = times_seen + 1
+      `;
+
+      this.db!.run(sql, [
+        entry.item_id,
+        entry.name,
+        entry.category,
+        entry.source,
+        entry.sample_quantity,
+        entry.first_seen,
+        entry.last_seen
+      ], (err) => {
+        if (err) {
+          console.error('Error recording pending item:', err);
+          reject(err);
+          return;
+        }
+        resolve();
+      });
+    })));
+  }
+
+  async updatePendingItemStatus(itemId: string, status: PendingItemEntry['status'], reviewedAt: string): Promise<void> {
+    return this.queueOperation(() => this.executeWithRetry(() => new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      this.db!.run('UPDATE pending_items SET status = ?, reviewed_at = ? WHERE item_id = ?', [status, reviewedAt, itemId], (err) => {
+        if (err) {
+          console.error('Error updating pending item:', err);
+          reject(err);
+          return;
+        }
+        resolve();
+      });
+    })));
+  }
+
+  async getPendingItems(filters?: { item_id?: string; status?: PendingItemEntry['status'] }): Promise<PendingItemEntry[]> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      let sql = 'SELECT * FROM pending_items';
+      const conditions: string[] = [];
+      const values: string[] = [];
+
+      if (filters?.item_id) {
+        conditions.push('item_id = ?');
+        values.push(filters.item_id);
+      }
+
+      if (filters?.status) {
+        conditions.push('status = ?');
+        values.push(filters.status);
+      }
+
+      if (conditions.length > 0) {
+        sql += ' WHERE ' + conditions.join(' AND ');
+      }
+
+      sql += ' ORDER BY first_seen DESC';
+
+      this.db!.all(sql, values, (err, rows) => {
+        if (err) {
+          console.error('Error getting pending items:', err);
+          reject(err);
+          return;
+        }
+
+        const entries: PendingItemEntry[] = rows.map((row: unknown) => {
+          const rowData = row as { [key: string]: unknown };
+          return {
+            item_id: rowData.item_id as string,
+            name: rowData.name as string,
+            category: rowData.category as string,
+            source: rowData.source as string,
+            sample_quantity: rowData.sample_quantity as number,
+            first_seen: rowData.first_seen as string,
+            last_seen: rowData.last_seen as string,
+            times_seen: rowData.times_seen as number,
+            status: rowData.status as PendingItemEntry['status'],
+            reviewed_at: rowData.reviewed_at as string | null
+          };
+        });
+
+        resolve(entries);
+      });
+    });
+  }
+
+  async upsertRateLimit(entry: RateLimitEntry): Promise<void> {
+    return this.queueOperation(() => this.executeWithRetry(() => new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const sql = 'INSERT OR REPLACE INTO rate_limits (key, hits, expires_at) VALUES (?, ?, ?)';
+
+      this.db!.run(sql, [entry.key, entry.hits, entry.expires_at], (err) => {
+        if (err) {
+          console.error('Error saving rate limit:', err);
+          reject(err);
+          return;
+        }
+        resolve();
+      });
+    })));
+  }
+
+  // Windows that still hold hits at the given time (ms)
+  async getRateLimits(now: number): Promise<RateLimitEntry[]> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      this.db!.all('SELECT * FROM rate_limits WHERE expires_at > ?', [now], (err, rows) => {
+        if (err) {
+          console.error('Error getting rate limits:', err);
+          reject(err);
+          return;
+        }
+
+        const entries: RateLimitEntry[] = rows.map((row: unknown) => {
+          const rowData = row as { [key: string]: unknown };
+          return {
+            key: rowData.key as string,
+            hits: rowData.hits as string,
+            expires_at: rowData.expires_at as number
+          };
+        });
+
+        resolve(entries);
+      });
+    });
+  }
+
+  async deleteExpiredRateLimits(now: number): Promise<number> {
+    return this.queueOperation(() => this.executeWithRetry(() => new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      this.db!.run('DELETE FROM rate_limits WHERE expires_at <= ?', [now], function(err) {
+        if (err) {
+          console.error('Error deleting expired rate limits:', err);
+          reject(err);
+          return;
+        }
+        resolve(this.changes);
+      });
+    })));
+  }
+
+  async insertDeferredNotification(entry: DeferredNotificationEntry): Promise<void> {
+    return this.queueOperation(() => this.executeWithRetry(() => new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const sql = `
+        INSERT INTO deferred_notifications (token, item_name, category, quantity, rarity, created_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `;
+
+      this.db!.run(sql, [
+        entry.token,
+        entry.item_name,
+        entry.category,
+        entry.quantity,
+        entry.rarity,
+        entry.created_at
+      ], (err) => {
+        if (err) {
+          console.error('Error inserting deferred notification:', err);
+          reject(err);
+          return;
+        }
+        resolve();
+      });
+    })));
+  }
+
+  // Oldest first, so summaries list items in the order they appeared
+  async getDeferredNotifications(token?: string): Promise<DeferredNotificationEntry[]> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const sql = token
+        ? 'SELECT * FROM deferred_notifications WHERE token = ? ORDER BY id ASC'
+        : 'SELECT * FROM deferred_notifications ORDER BY id ASC';
+
+      this.db!.all(sql, token ? [token] : [], (err, rows) => {
+        if (err) {
+          console.error('Error getting deferred notifications:', err);
+          reject(err);
+          return;
+        }
+
+        const entries: DeferredNotificationEntry[] = rows.map((row: unknown) => {
+          const rowData = row as { [key: string]: unknown };
+          return {
+            id: rowData.id as number,
+            token: rowData.token as string,
+            item_name: rowData.item_name as string,
+            category: rowData.category as string,
+            quantity: rowData.quantity as number,
+            rarity: rowData.rarity as string | null,
+            created_at: rowData.created_at as string
+          };
+        });
+
+        resolve(entries);
+      });
+    });
+  }
+
+  // Only up to maxId, alerts deferred while a summary was being sent stay queued
+  async deleteDeferredNotifications(token: string, maxId: number): Promise<void> {
+    return this.queueOperation(() => this.executeWithRetry(() => new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      this.db!.run('DELETE FROM deferred_notifications WHERE token = ? AND id <= ?', [token, maxId], (err) => {
+        if (err) {
+          console.error('Error deleting deferred notifications:', err);
+          reject(err);
+          return;
+        }
+        resolve();
+      });
+    })));
+  }
+
   async cleanupExpiredTokens(expiryDays: number = 30): Promise<number> {
     return new Promise((resolve, reject) => {
       if (!this.db) {
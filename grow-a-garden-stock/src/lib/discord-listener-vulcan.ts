@@ -3,6 +3,7 @@ import * as dotenv from 'dotenv';
 import * as path from 'path';
 import { parseDiscordStockMessage, parseDiscordWeatherMessage } from './discord-stock-parser.js';
 import { stockManager, StockItem, WeatherInfo } from './stock-manager.js';
+import { sourceRecorder } from './source-recorder.js';
 
 // Explicitly load .env.local from the project root
 dotenv.config({ path: path.resolve(process.cwd(), '.env.local') });
@@ -23,13 +24,16 @@ if (VULCAN_EGG_CHANNEL_ID) vulcanChannelConfig[VULCAN_EGG_CHANNEL_ID] = 'Eggs';
 if (VULCAN_COSMETIC_CHANNEL_ID) vulcanChannelConfig[VULCAN_COSMETIC_CHANNEL_ID] = 'Cosmetics';
 if (VULCAN_WEATHER_CHANNEL_ID) vulcanChannelConfig[VULCAN_WEATHER_CHANNEL_ID] = 'Weather';
 
-async function processVulcanMessage(message: Message) {
+// Exported so recorded messages can be replayed without a Discord connection
+export async function processVulcanMessage(message: Message) {
   const stockType = vulcanChannelConfig[message.channel.id];
 
   // Process all messages from configured channels (not just bot messages)
   if (stockType) {
     console.log(`📡 Processing Vulcan Discord message in [${stockType}] channel.`);
     
+    sourceRecorder.recordDiscordMessage('vulcan', message);
+
     // Always update source activity, even if no embeds
     stockManager.updateSourceActivity('vulcan');
     
@@ -80,7 +84,7 @@ async function processVulcanMessage(message: Message) {
   }
 }
 
-function initializeVulcanDiscordListener() {
+function initializeVulcanDiscordListener(): Client | null {
   console.log('🔧 Starting Vulcan Discord listener initialization...');
   
   // Check environment variables
@@ -95,13 +99,13 @@ function initializeVulcanDiscordListener() {
   if (!BOT_TOKEN) {
     console.error('❌ Discord bot token not set. The Vulcan listener will not start.');
     console.error('   Please check your .env.local file and ensure DISCORD_BOT_TOKEN is set.');
-    return;
+    return null;
   }
 
   if (Object.keys(vulcanChannelConfig).length === 0) {
     console.error('❌ No Vulcan channel IDs have been configured in the environment. The listener will not start.');
     console.error('   Please check your .env.local file and ensure at least one Vulcan channel ID is set.');
-    return;
+    return null;
   }
 
   console.log(`📊 Configured Vulcan Discord channels:`, Object.keys(vulcanChannelConfig).map(id => `${vulcanChannelConfig[id]} (${id})`));
@@ -168,6 +172,8 @@ function initializeVulcanDiscordListener() {
     // Exit process on login failure
     process.exit(1);
   });
+
+  return client;
 }
 
 export { initializeVulcanDiscordListener as initializeDiscordListener }; 
\ No newline at end of file
@@ -3,6 +3,7 @@ import * as dotenv from 'dotenv';
 import * as path from 'path';
 import { parseDiscordStockMessage, parseDiscordWeatherMessage } from './discord-stock-parser.js';
 import { stockManager, StockItem, WeatherInfo } from './stock-manager.js';
+import { sourceRecorder } from './source-recorder.js';
 
 // Explicitly load .env.local from the project root
 dotenv.config({ path: path.resolve(process.cwd(), '.env.local') });
@@ -21,13 +22,16 @@ if (CACTUS_EGG_CHANNEL_ID) cactusChannelConfig[CACTUS_EGG_CHANNEL_ID] = 'Eggs';
 if (CACTUS_COSMETIC_CHANNEL_ID) cactusChannelConfig[CACTUS_COSMETIC_CHANNEL_ID] = 'Cosmetics';
 if (CACTUS_WEATHER_CHANNEL_ID) cactusChannelConfig[CACTUS_WEATHER_CHANNEL_ID] = 'Weather';
 
-async function processCactusMessage(message: Message) {
+// Exported so recorded messages can be replayed without a Discord connection
+export async function processCactusMessage(message: Message) {
   const stockType = cactusChannelConfig[message.channel.id];
 
   // Process all messages from configured channels (not just bot messages)
   if (stockType) {
     console.log(`📡 Processing Cactus Discord message in [${stockType}] channel.`);
     
+    sourceRecorder.recordDiscordMessage('cactus', message);
+
     // Always update source activity, even if no embeds
     stockManager.updateSourceActivity('cactus');
     
@@ -101,7 +105,7 @@ async function processCactusMessage(message: Message) {
   }
 }
 
-function initializeCactusDiscordListener() {
+function initializeCactusDiscordListener(): Client | null {
   console.log('🔧 Starting Cactus Discord listener initialization...');
   
   // Check environment variables
@@ -115,13 +119,13 @@ function initializeCactusDiscordListener() {
   if (!BOT_TOKEN) {
     console.error('❌ Discord bot token not set. The Cactus listener will not start.');
     console.error('   Please check your .env.local file and ensure DISCORD_BOT_TOKEN is set.');
-    return;
+    return null;
   }
 
   if (Object.keys(cactusChannelConfig).length === 0) {
     console.error('❌ No Cactus channel IDs have been configured in the environment. The listener will not start.');
     console.error('   Please check your .env.local file and ensure at least one Cactus channel ID is set.');
-    return;
+    return null;
   }
 
   console.log(`📊 Configured Cactus Discord channels:`, Object.keys(cactusChannelConfig).map(id => `${cactusChannelConfig[id]} (${id})`));
@@ -188,6 +192,8 @@ function initializeCactusDiscordListener() {
     // Exit process on login failure
     process.exit(1);
   });
+
+  return client;
 }
 
 export { initializeCactusDiscordListener as initializeDiscordListener }; 
\ No newline at end of file
@@ -1,9 +1,5 @@
 import { Message } from 'discord.js';
-
-// Utility to normalize item names to IDs (e.g., "Green Apple" -> "green_apple")
-function normalizeId(name: string): string {
-  return name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
-}
+import { normalizeId } from './item-id.js';
 
 // Map category to refresh interval (minutes)
 const REFRESH_INTERVALS: Record<string, number> = {
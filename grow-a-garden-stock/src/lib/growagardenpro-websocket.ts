@@ -1,11 +1,12 @@
 import { WebSocket } from 'ws';
 import { stockManager, StockItem, WeatherInfo, TravellingMerchantItem } from './stock-manager.js';
+// Same normalization as the Discord parser so IDs match across all sources
+import { normalizeId } from './item-id.js';
+import { sourceRecorder } from './source-recorder.js';
+import type { SourceConnectionStats } from './stock-source.js';
 
-// Utility to normalize item names to IDs (same as Discord parser)
-// This ensures IDs match across all sources
-function normalizeId(name: string): string {
-  return name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
-}
+// Override to point at another endpoint, e.g. the local mock (npm run mock-upstream)
+const GAGPRO_WS_URL = process.env.GAGPRO_WS_URL || 'wss://ws.growagardenpro.com/';
 
 interface GrowAGardenProMessage {
   type?: string;
@@ -73,6 +74,7 @@ interface GrowAGardenProMessage {
 class GrowAGardenProWebSocketListener {
   private ws: WebSocket | null = null;
   private reconnectAttempts = 0;
+  private totalReconnects = 0; // Reconnects since start, not reset on a successful connection
   private maxReconnectAttempts = 10;
   private reconnectDelay = 5000; // 5 seconds
   private isConnected = false;
@@ -92,7 +94,7 @@ class GrowAGardenProWebSocketListener {
 
   private async connect() {
     try {
-      const wsUrl = 'wss://ws.growagardenpro.com/';
+      const wsUrl = GAGPRO_WS_URL;
       console.log(`🔗 Connecting to GrowAGardenPro WebSocket: ${wsUrl}`);
       
       this.ws = new WebSocket(wsUrl);
@@ -105,35 +107,9 @@ class GrowAGardenProWebSocketListener {
       });
 
       this.ws.on('message', async (data: Buffer) => {
-        try {
-          const rawMessage = data.toString();
-          const message = JSON.parse(rawMessage) as GrowAGardenProMessage;
-          
-          // Update source activity on any message
-          stockManager.updateSourceActivity('gagpro');
-          
-          // Check if message has the expected structure
-          if (message.type && message.data) {
-            console.log('📥 Received GrowAGardenPro WebSocket stock update');
-            console.log('📋 Message type:', message.type);
-            console.log('📋 Data keys:', Object.keys(message.data || {}));
-            await this.processStockUpdate(message.data);
-          } else {
-            // Try to process as direct data (in case structure is different)
-            if (message.data) {
-              console.log('📥 Received GrowAGardenPro WebSocket data (no type field)');
-              console.log('📋 Data keys:', Object.keys(message.data || {}));
-              await this.processStockUpdate(message.data);
-            } else {
-              // Try to process the message itself as data (fallback)
-              console.log('📥 Received GrowAGardenPro WebSocket message (trying as data)');
-              await this.processStockUpdate(message as unknown as GrowAGardenProMessage['data']);
-            }
-          }
-        } catch (error) {
-          console.error('❌ Error parsing GrowAGardenPro WebSocket message:', error);
-          console.error('📄 Raw message preview:', data.toString().substring(0, 200) + '...');
-        }
+        const rawMessage = data.toString();
+        sourceRecorder.recordFrame('gagpro', rawMessage);
+        await this.handleMessage(rawMessage);
       });
 
       this.ws.on('error', (error: Error) => {
@@ -162,6 +138,38 @@ class GrowAGardenProWebSocketListener {
     }
   }
 
+  // Entry point for every raw frame, also used to replay recorded frames
+  async handleMessage(rawMessage: string) {
+    try {
+      const message = JSON.parse(rawMessage) as GrowAGardenProMessage;
+      
+      // Update source activity on any message
+      stockManager.updateSourceActivity('gagpro');
+      
+      // Check if message has the expected structure
+      if (message.type && message.data) {
+        console.log('📥 Received GrowAGardenPro WebSocket stock update');
+        console.log('📋 Message type:', message.type);
+        console.log('📋 Data keys:', Object.keys(message.data || {}));
+        await this.processStockUpdate(message.data);
+      } else {
+        // Try to process as direct data (in case structure is different)
+        if (message.data) {
+          console.log('📥 Received GrowAGardenPro WebSocket data (no type field)');
+          console.log('📋 Data keys:', Object.keys(message.data || {}));
+          await this.processStockUpdate(message.data);
+        } else {
+          // Try to process the message itself as data (fallback)
+          console.log('📥 Received GrowAGardenPro WebSocket message (trying as data)');
+          await this.processStockUpdate(message as unknown as GrowAGardenProMessage['data']);
+        }
+      }
+    } catch (error) {
+      console.error('❌ Error parsing GrowAGardenPro WebSocket message:', error);
+      console.error('📄 Raw message preview:', rawMessage.substring(0, 200) + '...');
+    }
+  }
+
   private async processStockUpdate(data: GrowAGardenProMessage['data']) {
     if (!data) {
       console.log('⚠️ Empty data received from GrowAGardenPro WebSocket');
@@ -328,6 +336,7 @@ class GrowAGardenProWebSocketListener {
 
     if (this.reconnectAttempts < this.maxReconnectAttempts) {
       this.reconnectAttempts++;
+      this.totalReconnects++;
       const delay = this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1); // Exponential backoff
       
       console.log(`🔄 Scheduling GrowAGardenPro WebSocket reconnect attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts} in ${delay}ms`);
@@ -356,6 +365,14 @@ class GrowAGardenProWebSocketListener {
   isConnectedToWebSocket(): boolean {
     return this.isConnected;
   }
+
+  getConnectionStats(): SourceConnectionStats {
+    return {
+      connected: this.isConnected,
+      reconnectAttempts: this.reconnectAttempts,
+      totalReconnects: this.totalReconnects
+    };
+  }
 }
 
 export const growAGardenProWebSocket = new GrowAGardenProWebSocketListener();
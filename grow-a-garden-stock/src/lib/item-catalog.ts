@@ -0,0 +1,334 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Checking the file on every lookup would mean a stat per sorted item, so throttle it
+const RELOAD_CHECK_INTERVAL_MS = 5000;
+
+// Where items without a catalog rarity go when sorting: "first" (treat as
+// rarer than anything known, since new items are usually rare), "last", or a
+// rarity name to treat them as that rarity. Unrecognised values act as "first".
+const UNKNOWN_RARITY_POLICY = process.env.UNKNOWN_ITEM_RARITY_POLICY || 'first';
+
+export type CategoryNotificationType = 'item' | 'category' | 'general';
+
+export interface CatalogItem {
+  id: string;
+  name: string; // Display name, also the preference key
+  category: string;
+  rarity: string | null; // null for items without a rarity (events, weather)
+  aliases: string[]; // Other spellings sources use for the same item
+  defaultEnabled: boolean;
+}
+
+export interface CatalogCategory {
+  id: string;
+  name: string;
+  description: string;
+  // item: one notification per item, category: one per restock, general: weather
+  notificationType: CategoryNotificationType;
+  defaultEnabled: boolean;
+}
+
+export interface ItemCatalogData {
+  version: number;
+  rarities: string[]; // Lowest first
+  categories: CatalogCategory[];
+  items: CatalogItem[];
+}
+
+const EMPTY_CATALOG: ItemCatalogData = { version: 0, rarities: [], categories: [], items: [] };
+
+// Same rule as normalizeId in item-id.ts (this module has no runtime imports), so
+// "Dragon Fruit", "dragon_fruit" and "dragon-fruit" all find the same item
+function lookupKey(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+}
+
+function isValidItem(entry: Partial<CatalogItem>): entry is CatalogItem {
+  return typeof entry.id === 'string' && typeof entry.name === 'string' && typeof entry.category === 'string';
+}
+
+// Single-line JSON with spaces after separators, matching the layout of the catalog file
+function inlineJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(inlineJson).join(', ')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    return `{${Object.entries(value).map(([key, entry]) => `${JSON.stringify(key)}: ${inlineJson(entry)}`).join(', ')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// One category or item per line, so changes to the file stay easy to review
+function formatCatalogFile(data: ItemCatalogData): string {
+  const list = (entries: unknown[]) => entries.map(entry => `    ${inlineJson(entry)}`).join(',\n');
+  return [
+    '{',
+    `  "version": ${data.version},`,
+    `  "rarities": ${inlineJson(data.rarities)},`,
+    '  "categories": [',
+    list(data.categories),
+    '  ],',
+    '  "items": [',
+    list(data.items),
+    '  ]',
+    '}',
+    ''
+  ].join('\n');
+}
+
+/**
+ * The one list of known items, read from item-catalog.json (or the file
+ * named by ITEM_CATALOG_PATH) and reloaded when the file changes. Has no
+ * runtime imports so both the stock manager and API routes can use it.
+ */
+class ItemCatalog {
+  private data: ItemCatalogData = EMPTY_CATALOG;
+  private byKey: Map<string, CatalogItem> = new Map();
+  private loaded = false;
+  // File mtime at the last load attempt, null when the file was missing
+  private checkedMtimeMs: number | null | undefined = undefined;
+  private lastCheck = 0;
+
+  getCatalogPath(): string {
+    return path.resolve(process.cwd(), process.env.ITEM_CATALOG_PATH || 'item-catalog.json');
+  }
+
+  getVersion(): number {
+    this.refresh();
+    return this.data.version;
+  }
+
+  getItems(category?: string): CatalogItem[] {
+    this.refresh();
+    return category ? this.data.items.filter(item => item.category === category) : this.data.items;
+  }
+
+  getItemNames(category: string): string[] {
+    return this.getItems(category).map(item => item.name);
+  }
+
+  getCategories(): CatalogCategory[] {
+    this.refresh();
+    return this.data.categories;
+  }
+
+  getRarities(): string[] {
+    this.refresh();
+    return this.data.rarities;
+  }
+
+  // Find an item by id, display name or alias, ignoring case and punctuation
+  findItem(nameOrId: string): CatalogItem | undefined {
+    this.refresh();
+    return this.byKey.get(lookupKey(nameOrId));
+  }
+
+  // Position in the rarity list (higher is rarer), -1 for unknown rarities
+  getRarityRank(rarity: string | null | undefined): number {
+    return rarity ? this.getRarities().indexOf(rarity) : -1;
+  }
+
+  /**
+   * Canonical identity of an item as a source reported it. Every source
+   * (GrowAGardenPro, Discord, JStudio item_ids, merchant names) resolves to
+   * the catalog id and display name; items the catalog does not know get the
+   * normalized reported name as their id.
+   */
+  resolveIdentity(item: { id?: string; name: string }): { id: string; name: string; known: boolean } {
+    const match = (item.id ? this.findItem(item.id) : undefined) ?? this.findItem(item.name);
+    if (match) {
+      return { id: match.id, name: match.name, known: true };
+    }
+    return { id: lookupKey(item.name) || item.id || item.name, name: item.name.trim(), known: false };
+  }
+
+  // Copies of reported items with canonical ids and names, everything else unchanged
+  canonicalizeItems<T extends { id: string; name: string }>(items: T[]): T[] {
+    return items.map(item => {
+      const { id, name } = this.resolveIdentity(item);
+      return id === item.id && name === item.name ? item : { ...item, id, name };
+    });
+  }
+
+  // Preference keys use the catalog display name, so spelling variants end up under one key
+  canonicalPreferenceKey(key: string): string {
+    return this.findItem(key)?.name ?? key;
+  }
+
+  canonicalizePreferences<T>(preferences: Record<string, T>): Record<string, T> {
+    const canonical: Record<string, T> = {};
+    for (const [key, value] of Object.entries(preferences)) {
+      canonical[this.canonicalPreferenceKey(key)] = value;
+    }
+    return canonical;
+  }
+
+  // Rarity of a reported item, looked up by id first and then by name
+  getItemRarity(item: { id: string; name: string }): string | null {
+    return (this.findItem(item.id) ?? this.findItem(item.name))?.rarity ?? null;
+  }
+
+  // Sort position for a rarity, applying UNKNOWN_ITEM_RARITY_POLICY when there is none
+  getSortRank(rarity: string | null): number {
+    const rank = this.getRarityRank(rarity);
+    if (rank >= 0) {
+      return rank;
+    }
+    if (UNKNOWN_RARITY_POLICY === 'last') {
+      return -1;
+    }
+    const policyRank = this.getRarityRank(UNKNOWN_RARITY_POLICY);
+    return policyRank >= 0 ? policyRank : this.getRarities().length;
+  }
+
+  // Rarest first. Items of equal rank keep the order the source listed them in.
+  sortByRarity<T extends { id: string; name: string }>(items: T[]): T[] {
+    return items
+      .map((item, index) => ({ item, index, rank: this.getSortRank(this.getItemRarity(item)) }))
+      .sort((a, b) => b.rank - a.rank || a.index - b.index)
+      .map(entry => entry.item);
+  }
+
+  // Preferences are keyed by item name, or by category name for category and weather alerts
+  isKnownPreferenceKey(key: string): boolean {
+    if (this.findItem(key)) {
+      return true;
+    }
+    const normalized = lookupKey(key);
+    return this.getCategories().some(category =>
+      lookupKey(category.id) === normalized || lookupKey(category.name) === normalized
+    );
+  }
+
+  /**
+   * Add an item to the catalog file, next to the other items of its
+   * category, and load the result. Throws when the category or rarity is
+   * unknown or another item already uses one of its names.
+   */
+  addItem(item: CatalogItem): CatalogItem {
+    const catalogPath = this.getCatalogPath();
+    const data = JSON.parse(fs.readFileSync(catalogPath, 'utf-8')) as ItemCatalogData;
+
+    if (!data.categories.some(category => category.id === item.category)) {
+      throw new Error(`Unknown category "${item.category}"`);
+    }
+    if (item.rarity !== null && !data.rarities.includes(item.rarity)) {
+      throw new Error(`Unknown rarity "${item.rarity}", use one of: ${data.rarities.join(', ')}`);
+    }
+
+    const keys = [item.id, item.name, ...item.aliases].map(lookupKey);
+    const clash = data.items.find(existing =>
+      [existing.id, existing.name, ...(existing.aliases || [])].some(key => keys.includes(lookupKey(key)))
+    );
+    if (clash) {
+      throw new Error(`${clash.name} (${clash.id}) already uses one of the names of ${item.name}`);
+    }
+
+    let insertAt = data.items.length;
+    data.items.forEach((existing, index) => {
+      if (existing.category === item.category) {
+        insertAt = index + 1;
+      }
+    });
+    data.items.splice(insertAt, 0, item);
+
+    // Write a temporary file first so the other process never reads half a catalog
+    const tempPath = `${catalogPath}.tmp`;
+    fs.writeFileSync(tempPath, formatCatalogFile(data), 'utf-8');
+    fs.renameSync(tempPath, catalogPath);
+    console.log(`📚 Added ${item.category} item ${item.name} (${item.id}) to the item catalog`);
+
+    this.reload();
+    return item;
+  }
+
+  /**
+   * Read the catalog file now. Keeps the previous catalog when the file is
+   * missing or invalid, so a bad edit never empties it in a running process.
+   */
+  reload(): boolean {
+    const catalogPath = this.getCatalogPath();
+    try {
+      const stats = fs.statSync(catalogPath);
+      const parsed = JSON.parse(fs.readFileSync(catalogPath, 'utf-8')) as Partial<ItemCatalogData>;
+      if (!Array.isArray(parsed.items) || !Array.isArray(parsed.categories) || !Array.isArray(parsed.rarities)) {
+        throw new Error('expected "rarities", "categories" and "items" arrays');
+      }
+
+      const items: CatalogItem[] = [];
+      for (const entry of parsed.items as Partial<CatalogItem>[]) {
+        if (!isValidItem(entry)) {
+          console.error(`❌ Skipping invalid item catalog entry: ${JSON.stringify(entry)}`);
+          continue;
+        }
+        items.push({
+          id: entry.id,
+          name: entry.name,
+          category: entry.category,
+          rarity: entry.rarity ?? null,
+          aliases: Array.isArray(entry.aliases) ? entry.aliases : [],
+          defaultEnabled: entry.defaultEnabled === true
+        });
+      }
+
+      const byKey = new Map<string, CatalogItem>();
+      for (const item of items) {
+        for (const key of [item.id, item.name, ...item.aliases]) {
+          const existing = byKey.get(lookupKey(key));
+          if (existing && existing !== item) {
+            console.warn(`⚠️ Item catalog key "${key}" is used by both ${existing.id} and ${item.id}, keeping ${existing.id}`);
+            continue;
+          }
+          byKey.set(lookupKey(key), item);
+        }
+      }
+
+      this.data = {
+        version: typeof parsed.version === 'number' ? parsed.version : 0,
+        rarities: parsed.rarities,
+        categories: parsed.categories,
+        items
+      };
+      this.byKey = byKey;
+      this.checkedMtimeMs = stats.mtimeMs;
+      console.log(`📚 ${this.loaded ? 'Reloaded' : 'Loaded'} item catalog: ${items.length} items (version ${this.data.version})`);
+      this.loaded = true;
+      return true;
+    } catch (error) {
+      console.error(`❌ Error loading item catalog from ${catalogPath}, keeping the current catalog:`, error);
+      return false;
+    }
+  }
+
+  private refresh() {
+    const now = Date.now();
+    if (this.checkedMtimeMs !== undefined && now - this.lastCheck < RELOAD_CHECK_INTERVAL_MS) {
+      return;
+    }
+    this.lastCheck = now;
+
+    let mtimeMs: number | null = null;
+    try {
+      mtimeMs = fs.statSync(this.getCatalogPath()).mtimeMs;
+    } catch {
+      // Missing file, reload() reports it
+    }
+    // Only retry a broken file once it changes again
+    if (mtimeMs !== this.checkedMtimeMs) {
+      this.checkedMtimeMs = mtimeMs;
+      this.reload();
+    }
+  }
+}
+
+export const itemCatalog = new ItemCatalog();
+
+// Item names grouped by category id
+export function getCatalogItemNames(): Record<string, string[]> {
+  const names: Record<string, string[]> = {};
+  for (const category of itemCatalog.getCategories()) {
+    names[category.id] = itemCatalog.getItemNames(category.id);
+  }
+  return names;
+}
@@ -0,0 +1,5 @@
+// Utility to normalize item names to IDs (e.g., "Green Apple" -> "green_apple")
+// Shared by every source so IDs match across GrowAGardenPro, Discord and stored history
+export function normalizeId(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+}
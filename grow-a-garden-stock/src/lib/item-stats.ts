@@ -0,0 +1,173 @@
+import database from './database';
+import { itemCatalog } from './item-catalog';
+import { REFRESH_INTERVALS, getCycleIndex, isRestockCategory } from './restock-schedule';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Each request scans the history table, and history only grows once per restock
+const STATS_CACHE_MS = 60 * 1000;
+// Item ids come from the URL, so bound the cache
+const STATS_CACHE_MAX_ENTRIES = 500;
+
+interface HistoryItem {
+  id: string;
+  name: string;
+  quantity: number;
+}
+
+export interface ItemStats {
+  itemId: string;
+  name: string | null;
+  category: string | null;
+  lastSeen: string | null;
+  lastQuantity: number | null;
+  appearances: {
+    total: number; // Restock cycles the item appeared in during the window
+    last24Hours: number;
+    last7Days: number;
+    perDay: number;
+    perWeek: number;
+  };
+  quantity: {
+    average: number | null;
+    max: number | null;
+  };
+  longestGapMinutes: number | null; // Longest time between two consecutive appearances
+  cycleShare: number | null; // Share of recorded restock cycles the item appeared in (0-1)
+  cyclesObserved: number;
+  window: {
+    from: string;
+    to: string;
+    days: number;
+  };
+}
+
+const statsCache = new Map<string, { stats: ItemStats; expiresAt: number }>();
+
+function cacheStats(key: string, stats: ItemStats, now: number) {
+  for (const [cachedKey, cached] of statsCache) {
+    if (cached.expiresAt <= now) {
+      statsCache.delete(cachedKey);
+    }
+  }
+  if (statsCache.size >= STATS_CACHE_MAX_ENTRIES) {
+    // Oldest insertion first
+    statsCache.delete(statsCache.keys().next().value!);
+  }
+  statsCache.set(key, { stats, expiresAt: now + STATS_CACHE_MS });
+}
+
+/**
+ * Build appearance statistics for an item from recorded stock history.
+ * Several sources can report the same restock, so appearances are counted
+ * per restock cycle rather than per stored snapshot.
+ */
+export async function getItemStats(rawItemId: string, windowDays: number = 30): Promise<ItemStats> {
+  // Accept the catalog id, display name or any alias
+  const itemId = itemCatalog.resolveIdentity({ name: rawItemId }).id;
+  const now = Date.now();
+  const from = new Date(now - windowDays * DAY_MS).toISOString();
+
+  const cacheKey = `${itemId}:${windowDays}`;
+  const cached = statsCache.get(cacheKey);
+  if (cached && cached.expiresAt > now) {
+    return cached.stats;
+  }
+
+  await database.initialize();
+
+  // Most recent sighting regardless of the window
+  const [latest] = await database.getStockHistory({ itemId, limit: 1 });
+  const entries = await database.getStockHistory({ itemId, from });
+
+  const stats: ItemStats = {
+    itemId,
+    name: null,
+    category: null,
+    lastSeen: null,
+    lastQuantity: null,
+    appearances: { total: 0, last24Hours: 0, last7Days: 0, perDay: 0, perWeek: 0 },
+    quantity: { average: null, max: null },
+    longestGapMinutes: null,
+    cycleShare: null,
+    cyclesObserved: 0,
+    window: { from, to: new Date(now).toISOString(), days: windowDays }
+  };
+
+  if (latest) {
+    const latestItem = findItem(latest.items, itemId);
+    stats.name = latestItem?.name ?? null;
+    stats.category = latest.category;
+    stats.lastSeen = latest.recorded_at;
+    stats.lastQuantity = latestItem?.quantity ?? null;
+  }
+
+  if (!stats.category || !isRestockCategory(stats.category)) {
+    cacheStats(cacheKey, stats, now);
+    return stats;
+  }
+
+  const interval = REFRESH_INTERVALS[stats.category];
+
+  // Collapse snapshots into one appearance per restock cycle (newest snapshot wins)
+  const appearances = new Map<number, { time: number; quantity: number }>();
+  for (const entry of entries) {
+    if (entry.category !== stats.category) continue;
+    const item = findItem(entry.items, itemId);
+    if (!item) continue;
+
+    const time = new Date(entry.recorded_at).getTime();
+    const cycle = getCycleIndex(time, interval);
+    const existing = appearances.get(cycle);
+    if (!existing || existing.time < time) {
+      appearances.set(cycle, { time, quantity: item.quantity });
+    }
+  }
+
+  const cycles = Array.from(appearances.keys()).sort((a, b) => a - b);
+  const quantities = cycles.map(cycle => appearances.get(cycle)!.quantity);
+
+  stats.appearances.total = cycles.length;
+  stats.appearances.last24Hours = cycles.filter(cycle => appearances.get(cycle)!.time >= now - DAY_MS).length;
+  stats.appearances.last7Days = cycles.filter(cycle => appearances.get(cycle)!.time >= now - 7 * DAY_MS).length;
+
+  if (quantities.length > 0) {
+    stats.quantity.average = round(quantities.reduce((sum, q) => sum + q, 0) / quantities.length);
+    stats.quantity.max = Math.max(...quantities);
+  }
+
+  for (let i = 1; i < cycles.length; i++) {
+    const gapMinutes = (cycles[i] - cycles[i - 1]) * interval;
+    if (stats.longestGapMinutes === null || gapMinutes > stats.longestGapMinutes) {
+      stats.longestGapMinutes = gapMinutes;
+    }
+  }
+
+  // Every distinct cycle we have data for in this category counts as observed
+  const times = await database.getStockHistoryTimes(stats.category, from);
+  const observedCycles = new Set(times.map(time => getCycleIndex(new Date(time).getTime(), interval)));
+  stats.cyclesObserved = observedCycles.size;
+  stats.cycleShare = observedCycles.size > 0 ? round(cycles.length / observedCycles.size) : null;
+
+  // Average over the span we actually have data for, not the whole requested window
+  if (times.length > 0) {
+    const observedDays = Math.max(1, (now - new Date(times[0]).getTime()) / DAY_MS);
+    stats.appearances.perDay = round(cycles.length / observedDays);
+    stats.appearances.perWeek = round((cycles.length / observedDays) * 7);
+  }
+
+  cacheStats(cacheKey, stats, now);
+  return stats;
+}
+
+function findItem(itemsJson: string, itemId: string): HistoryItem | undefined {
+  try {
+    const items = JSON.parse(itemsJson) as HistoryItem[];
+    return items.find(item => item.id === itemId);
+  } catch {
+    return undefined;
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
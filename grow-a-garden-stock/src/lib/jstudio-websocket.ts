@@ -1,5 +1,10 @@
 import { WebSocket } from 'ws';
 import { stockManager, StockItem, TravellingMerchantItem, WeatherInfo } from './stock-manager.js';
+import { sourceRecorder } from './source-recorder.js';
+import type { SourceConnectionStats } from './stock-source.js';
+
+// Override to point at another endpoint, e.g. the local mock (npm run mock-upstream)
+const JSTUDIO_WS_URL = process.env.JSTUDIO_WS_URL || 'wss://websocket.joshlei.com/growagarden';
 
 interface WebSocketStockData {
   seed_stock: Array<{
@@ -81,6 +86,7 @@ interface WebSocketStockData {
 class JStudioWebSocketListener {
   private ws: WebSocket | null = null;
   private reconnectAttempts = 0;
+  private totalReconnects = 0; // Reconnects since start, not reset on a successful connection
   private maxReconnectAttempts = 10;
   private reconnectDelay = 5000; // 5 seconds
   private isConnected = false;
@@ -104,7 +110,9 @@ class JStudioWebSocketListener {
 
   private async connect() {
     try {
-      const wsUrl = `wss://websocket.joshlei.com/growagarden?user_id=${encodeURIComponent(this.userId)}`;
+      const url = new URL(JSTUDIO_WS_URL);
+      url.searchParams.set('user_id', this.userId);
+      const wsUrl = url.toString();
       console.log(`🔗 Connecting to JStudio WebSocket: ${wsUrl}`);
       
       // Add JStudio API key to headers
@@ -123,17 +131,9 @@ class JStudioWebSocketListener {
       });
 
       this.ws.on('message', async (data: Buffer) => {
-        try {
-          const rawMessage = data.toString();
-          const message = JSON.parse(rawMessage) as WebSocketStockData;
-          console.log('📥 Received WebSocket stock update');
-          console.log('📋 Message keys:', Object.keys(message));
-          
-          await this.processStockUpdate(message);
-        } catch (error) {
-          console.error('❌ Error parsing WebSocket message:', error);
-          console.error('📄 Raw message:', data.toString().substring(0, 200) + '...');
-        }
+        const rawMessage = data.toString();
+        sourceRecorder.recordFrame('websocket', rawMessage);
+        await this.handleMessage(rawMessage);
       });
 
       this.ws.on('error', (error: Error) => {
@@ -162,6 +162,24 @@ class JStudioWebSocketListener {
     }
   }
 
+  // Entry point for every raw frame, also used to replay recorded frames
+  async handleMessage(rawMessage: string) {
+    try {
+      const message = JSON.parse(rawMessage) as WebSocketStockData;
+      
+      // Update source activity on any message
+      stockManager.updateSourceActivity('websocket');
+      
+      console.log('📥 Received WebSocket stock update');
+      console.log('📋 Message keys:', Object.keys(message));
+      
+      await this.processStockUpdate(message);
+    } catch (error) {
+      console.error('❌ Error parsing WebSocket message:', error);
+      console.error('📄 Raw message:', rawMessage.substring(0, 200) + '...');
+    }
+  }
+
   private async processStockUpdate(stockData: WebSocketStockData) {
     try {
       console.log('🔄 Processing WebSocket stock update...');
@@ -285,6 +303,7 @@ class JStudioWebSocketListener {
   private scheduleReconnect() {
     if (this.reconnectAttempts < this.maxReconnectAttempts) {
       this.reconnectAttempts++;
+      this.totalReconnects++;
       const delay = this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1); // Exponential backoff
       
       console.log(`🔄 Scheduling WebSocket reconnect attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts} in ${delay}ms`);
@@ -309,6 +328,14 @@ class JStudioWebSocketListener {
   isConnectedToWebSocket(): boolean {
     return this.isConnected;
   }
+
+  getConnectionStats(): SourceConnectionStats {
+    return {
+      connected: this.isConnected,
+      reconnectAttempts: this.reconnectAttempts,
+      totalReconnects: this.totalReconnects
+    };
+  }
 }
 
 export const jstudioWebSocket = new JStudioWebSocketListener(); 
\ No newline at end of file
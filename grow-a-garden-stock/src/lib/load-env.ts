@@ -0,0 +1,8 @@
+import * as dotenv from 'dotenv';
+import * as path from 'path';
+
+// Process entry points import this first. ES modules are evaluated in import
+// order, so .env.local is loaded before any module reads process.env at load
+// time (source URLs, consensus quorum, broadcast port, alert sinks, ...).
+// Variables already set in the environment win over the file.
+dotenv.config({ path: path.resolve(process.cwd(), '.env.local') });
@@ -1,21 +1,32 @@
 import {
-  sendItemNotification as sendOneSignalItemNotification,
   sendWeatherAlertNotification as sendOneSignalWeatherNotification,
-  sendCategoryNotification as sendOneSignalCategoryNotification
+  sendCategoryNotification as sendOneSignalCategoryNotification,
+  sendQuietHoursSummaries as sendOneSignalQuietHoursSummaries,
+  sendRestockNotifications as sendOneSignalRestockNotifications
 } from './onesignal-notifications-db.js';
 
-export async function sendItemNotification(
-  itemName: string,
-  quantity: number,
-  category: string
+// Log instead of sending, e.g. when replaying recorded source messages.
+// Read on every call so scripts can set it after this module is loaded.
+function isDryRun(): boolean {
+  return process.env.NOTIFICATIONS_DRY_RUN === 'true';
+}
+
+// Every item alert for one restock, planned so devices with the same items share requests
+export async function sendRestockNotifications(
+  category: string,
+  items: Array<{ id: string; name: string; quantity: number }>
 ) {
-  console.log(`📤 Sending ${itemName} notification via OneSignal`);
+  if (isDryRun()) {
+    console.log(`🧪 [dry run] Would send ${category} restock notifications (${items.map(item => `${item.name} x${item.quantity}`).join(', ')})`);
+    return;
+  }
+
+  console.log(`📤 Sending ${category} restock notifications via OneSignal`);
 
   try {
-    await sendOneSignalItemNotification(itemName, quantity, category);
-    console.log(`✅ OneSignal notification sent for ${itemName}`);
+    await sendOneSignalRestockNotifications(category, items);
   } catch (error) {
-    console.error(`❌ OneSignal notification failed for ${itemName}:`, error);
+    console.error(`❌ OneSignal ${category} restock notifications failed:`, error);
   }
 }
 
@@ -23,6 +34,11 @@ export async function sendWeatherAlertNotification(
   weatherType: string,
   description: string
 ) {
+  if (isDryRun()) {
+    console.log(`🧪 [dry run] Would send weather alert for ${weatherType}`);
+    return;
+  }
+
   console.log(`🌤️ Sending weather alert via OneSignal`);
 
   try {
@@ -38,6 +54,11 @@ export async function sendCategoryNotification(
   categoryDisplayName: string,
   description: string
 ) {
+  if (isDryRun()) {
+    console.log(`🧪 [dry run] Would send ${categoryDisplayName} category notification`);
+    return;
+  }
+
   console.log(`📦 Sending category notification via OneSignal`);
 
   try {
@@ -46,4 +67,17 @@ export async function sendCategoryNotification(
   } catch (error) {
     console.error(`❌ OneSignal category notification failed:`, error);
   }
-} 
\ No newline at end of file
+}
+
+// Morning summaries for devices whose quiet hours have ended
+export async function sendQuietHoursSummaries() {
+  if (isDryRun()) {
+    return;
+  }
+
+  try {
+    await sendOneSignalQuietHoursSummaries();
+  } catch (error) {
+    console.error(`❌ Quiet hours summaries failed:`, error);
+  }
+}
@@ -0,0 +1,136 @@
+import { preferenceMatches } from './database.js';
+import type { DeferredNotificationEntry, PushTokenEntry } from './database.js';
+import { itemCatalog } from './item-catalog.js';
+import { canBreakThrough, isWithinQuietHours, parseQuietHours } from './quiet-hours.js';
+
+export interface PlannedItem {
+  id: string;
+  name: string;
+  quantity: number;
+  rarity: string | null;
+}
+
+export interface PlannedRequest {
+  kind: 'item' | 'digest';
+  items: PlannedItem[]; // A single item for item alerts, rarest first for digests
+  tokens: PushTokenEntry[];
+}
+
+export interface FanOutPlan {
+  category: string;
+  requests: PlannedRequest[]; // Send order, requests for rarer items first
+  deferred: DeferredNotificationEntry[]; // Held back by quiet hours for the morning summary
+  suppressed: number; // Alerts dropped by quiet hours
+  devices: number; // Devices that receive at least one item
+  plannedRequests: number; // OneSignal calls for this plan, counting batches
+  naiveRequests: number; // OneSignal calls when every item is sent to everyone following it
+}
+
+// Keys are canonicalized on read too, since tokens stored before the catalog
+// existed can still use spelling variants such as "Level-Up Lollipop"
+function parsePreferences(token: PushTokenEntry): Record<string, unknown> {
+  try {
+    return token.preferences ? itemCatalog.canonicalizePreferences(JSON.parse(token.preferences)) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Work out who gets what for one restock in a single pass over the devices.
+ * Each device's matching items (after minimum quantities and quiet hours) are
+ * collected first, then devices with the same items are grouped:
+ * - per-item devices still get one push per item, so they share the item's request
+ * - digest devices with the same item list share one digest request, and a
+ *   digest of a single item is sent as that item's alert
+ */
+export function planRestockFanOut(
+  category: string,
+  items: Array<{ id: string; name: string; quantity: number }>,
+  tokens: PushTokenEntry[],
+  now: number,
+  maxPlayersPerRequest: number
+): FanOutPlan {
+  const sortedItems: PlannedItem[] = itemCatalog.sortByRarity(items).map(item => ({
+    id: item.id,
+    name: item.name,
+    quantity: item.quantity,
+    rarity: itemCatalog.getItemRarity(item)
+  }));
+
+  const itemAudiences = new Map<string, PushTokenEntry[]>(sortedItems.map(item => [item.name, []]));
+  const followers = new Map<string, number>();
+  const digestGroups = new Map<string, PlannedRequest>();
+  const deferred: DeferredNotificationEntry[] = [];
+  let suppressed = 0;
+  let devices = 0;
+
+  for (const token of tokens) {
+    if (!token.onesignal_player_id) continue;
+
+    const preferences = parsePreferences(token);
+    const quietHours = parseQuietHours(token.quiet_hours);
+    const inQuietHours = isWithinQuietHours(quietHours, token.time_zone ?? undefined, now);
+
+    const matching: PlannedItem[] = [];
+    for (const item of sortedItems) {
+      if (!preferenceMatches(preferences[item.name], item.quantity)) continue;
+
+      if (inQuietHours && quietHours && !canBreakThrough(quietHours, item.rarity)) {
+        if (quietHours.morningSummary) {
+          deferred.push({
+            token: token.token,
+            item_name: item.name,
+            category,
+            quantity: item.quantity,
+            rarity: item.rarity,
+            created_at: new Date(now).toISOString()
+          });
+        } else {
+          suppressed++;
+        }
+        continue;
+      }
+
+      matching.push(item);
+    }
+
+    if (matching.length === 0) continue;
+    devices++;
+
+    for (const item of matching) {
+      followers.set(item.name, (followers.get(item.name) ?? 0) + 1);
+    }
+
+    if (token.delivery_mode === 'digest' && matching.length > 1) {
+      const key = matching.map(item => item.name).join('\n');
+      const group = digestGroups.get(key) ?? { kind: 'digest', items: matching, tokens: [] };
+      group.tokens.push(token);
+      digestGroups.set(key, group);
+    } else {
+      for (const item of matching) {
+        itemAudiences.get(item.name)!.push(token);
+      }
+    }
+  }
+
+  const itemRequests: PlannedRequest[] = sortedItems
+    .filter(item => itemAudiences.get(item.name)!.length > 0)
+    .map(item => ({ kind: 'item', items: [item], tokens: itemAudiences.get(item.name)! }));
+
+  // Stable sort keeps an item's own request ahead of digests led by the same item
+  const rank = (request: PlannedRequest) => sortedItems.indexOf(request.items[0]);
+  const requests = [...itemRequests, ...digestGroups.values()].sort((a, b) => rank(a) - rank(b));
+
+  const batches = (recipients: number) => Math.ceil(recipients / maxPlayersPerRequest);
+
+  return {
+    category,
+    requests,
+    deferred,
+    suppressed,
+    devices,
+    plannedRequests: requests.reduce((sum, request) => sum + batches(request.tokens.length), 0),
+    naiveRequests: Array.from(followers.values()).reduce((sum, count) => sum + batches(count), 0)
+  };
+}
@@ -1,31 +1,5 @@
 import database from './database';
-
-// All available items for notifications
-export const ALL_ITEMS = {
-  seeds: [
-    "Carrot", "Strawberry", "Blueberry", "Orange Tulip", "Tomato", "Corn", "Daffodil",
-    "Watermelon", "Pumpkin", "Apple", "Bamboo", "Broccoli", "Coconut", "Cactus", 
-    "Dragon Fruit", "Mango", "Potato", "Grape", "Mushroom", "Pepper", "Cacao", 
-    "Brussels Sprout", "Sunflower", "Beanstalk", "Ember Lily", "Sugar Apple", "Burning Bud", 
-    "Giant Pinecone", "Elder Strawberry", "Romanesco", "Cocomango", "Crimson Thorn", "Great Pumpkin",
-    "Buttercup", "Trinity Fruit", "Zebrazinkle", "Octobloom"
-  ],
-  gear: [
-    "Watering Can", "Trowel", "Recall Wrench", "Basic Sprinkler", "Advanced Sprinkler",
-    "Godly Sprinkler", "Tanning Mirror", "Magnifying Glass", "Master Sprinkler", "Cleaning Spray",
-    "Favorite Tool", "Harvest Tool", "Friendship Pot", "Medium Toy", "Medium Treat", "Levelup Lollipop",
-    "Grandmaster Sprinkler", "Trading Ticket", "Cleansing Pet Shard",
-    "Pet Name Reroller", "Pet Lead", "Rainbow Lollipop"
-  ],
-  eggs: [
-    "Common Egg", "Uncommon Egg", "Rare Egg", "Legendary Egg", "Mythical Egg",
-    "Bug Egg", "Common Summer Egg", "Rare Summer Egg", "Paradise Egg", "Jungle Egg", "Gem Egg"
-  ],
-  events: [],
-  weather: [
-    "Weather Alerts"
-  ]
-};
+import { getCatalogItemNames } from './item-catalog';
 
 // Utility function to get token statistics from database
 export async function getTokenStats() {
@@ -58,5 +32,5 @@ export async function getTokenStats() {
 
 // Utility function to get all items
 export function getAllItems() {
-  return ALL_ITEMS;
+  return getCatalogItemNames();
 } 
\ No newline at end of file
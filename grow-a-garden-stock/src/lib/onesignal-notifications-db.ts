@@ -1,4 +1,9 @@
 import database from './database.js';
+import type { PushTokenEntry } from './database.js';
+import { alertManager } from './alerts.js';
+import { getCatalogItemNames, itemCatalog } from './item-catalog.js';
+import { isWithinQuietHours, parseQuietHours } from './quiet-hours.js';
+import { planRestockFanOut } from './notification-planner.js';
 
 const ONESIGNAL_APP_ID = '7a3f0ef9-af93-4481-93e1-375183500d50';
 
@@ -43,37 +48,6 @@ interface NotificationData {
   [key: string]: unknown;
 }
 
-// All available items for notifications
-export const ALL_ITEMS = {
-  seeds: [
-    "Carrot", "Strawberry", "Blueberry", "Orange Tulip", "Tomato", "Corn", "Daffodil",
-    "Watermelon", "Pumpkin", "Apple", "Bamboo", "Broccoli", "Coconut", "Cactus", 
-    "Dragon Fruit", "Mango", "Potato", "Grape", "Mushroom", "Pepper", "Cacao", 
-    "Brussels Sprout", "Sunflower", "Beanstalk", "Ember Lily", "Sugar Apple", "Burning Bud", 
-    "Giant Pinecone", "Elder Strawberry", "Romanesco", "Cocomango", "Crimson Thorn", "Great Pumpkin",
-    "Buttercup", "Trinity Fruit", "Zebrazinkle", "Octobloom"
-  ],
-  gear: [
-    "Watering Can", "Trowel", "Recall Wrench", "Basic Sprinkler", "Advanced Sprinkler",
-    "Godly Sprinkler", "Tanning Mirror", "Magnifying Glass", "Master Sprinkler", "Cleaning Spray",
-    "Favorite Tool", "Harvest Tool", "Friendship Pot", "Medium Toy", "Medium Treat", "Levelup Lollipop",
-    "Cleansing Pet Shard", "Pet Name Reroller", "Pet Lead", "Rainbow Lollipop"
-  ],
-  eggs: [
-    "Common Egg", "Uncommon Egg", "Rare Egg", "Legendary Egg", "Mythical Egg",
-    "Bug Egg", "Common Summer Egg", "Rare Summer Egg", "Paradise Egg", "Jungle Egg", "Gem Egg"
-  ],
-  events: [
-    "Zen Seed Pack", "Zen Egg", "Hot Spring", "Zen Sand", "Tranquil Radar", 
-    "Corrupt Radar", "Zenflare", "Zen Crate", "Sakura Bush", "Soft Sunshine", 
-    "Koi", "Zen Gnome Crate", "Spiked Mango", "Pet Shard Tranquil", 
-    "Pet Shard Corrupted", "Raiju"
-  ],
-  weather: [
-    "Weather Alerts"
-  ]
-};
-
 const categoryAssets = {
   'Seeds': { emoji: '🌱', title: 'Seed Stock Update' },
   'Gear': { emoji: '🛠️', title: 'Gear Stock Update' },
@@ -209,6 +183,7 @@ async function sendOneSignalNotification(
   const apiKey = getOneSignalApiKey();
   if (!apiKey) {
     console.error('❌ OneSignal API key not configured');
+    alertManager.recordPushOutcome(false);
     return { success: false, failedPlayerIds: playerIds };
   }
 
@@ -259,6 +234,7 @@ async function sendOneSignalNotification(
 
     if (response.ok && result.id) {
       console.log(`✅ OneSignal notification sent successfully (ID: ${result.id})`);
+      alertManager.recordPushOutcome(true);
       return { success: true, failedPlayerIds: [] };
     } else {
       console.error('❌ OneSignal API error:', result);
@@ -284,9 +260,12 @@ async function sendOneSignalNotification(
           await handleOneSignalError('invalid_player_ids', playerId);
         }
         
+        // Stale tokens are cleaned up above, they say nothing about OneSignal being healthy
+        alertManager.recordPushOutcome(true);
         return { success: false, failedPlayerIds: failedIds };
       }
       
+      alertManager.recordPushOutcome(false);
       return { success: false, failedPlayerIds: playerIds };
     }
   } catch (error) {
@@ -312,6 +291,7 @@ async function sendOneSignalNotification(
       return sendOneSignalNotification(playerIds, title, message, data, retryCount + 1);
     }
     
+    alertManager.recordPushOutcome(false);
     return { success: false, failedPlayerIds: playerIds };
   }
 }
@@ -355,125 +335,184 @@ async function handleOneSignalError(error: string, playerId: string): Promise<vo
   }
 }
 
-export async function sendItemNotification(itemName: string, quantity: number, category: string) {
+// Drop devices that are in quiet hours. Category and weather alerts are over by
+// morning, so they are suppressed rather than deferred. Item alerts go through
+// planRestockFanOut, which handles breakthrough rarities and morning summaries.
+function applyQuietHours(tokens: PushTokenEntry[], label: string): PushTokenEntry[] {
+  const now = Date.now();
+  const deliverable = tokens.filter(token =>
+    !isWithinQuietHours(parseQuietHours(token.quiet_hours), token.time_zone ?? undefined, now)
+  );
+
+  const suppressed = tokens.length - deliverable.length;
+  if (suppressed > 0) {
+    console.log(`🌙 Quiet hours for ${label}: ${suppressed} suppressed`);
+  }
+
+  return deliverable;
+}
+
+// Send each device the alerts it missed once its quiet hours are over
+export async function sendQuietHoursSummaries() {
   try {
-    // Initialize database if needed
     await database.initialize();
-    
-    // Clean up expired tokens
-    await database.cleanupExpiredTokens();
-    
-    // Get tokens for this specific item
-    const interestedTokens = await database.getTokensForItem(itemName);
-    
-    if (interestedTokens.length === 0) {
-      console.log(`📭 No users have notifications enabled for ${itemName}`);
+
+    const deferred = await database.getDeferredNotifications();
+    if (deferred.length === 0) {
       return;
     }
 
-    const notificationData: NotificationData = {
-      itemName,
-      rarity: 'Common',
-      quantity,
-      type: 'rare_item_alert',
-      timestamp: new Date().toISOString(),
-      channel: category.toLowerCase()
-    };
+    const byToken = new Map<string, typeof deferred>();
+    for (const entry of deferred) {
+      const entries = byToken.get(entry.token) ?? [];
+      entries.push(entry);
+      byToken.set(entry.token, entries);
+    }
 
-    const assets = categoryAssets[category as keyof typeof categoryAssets] || categoryAssets.Default;
+    const activeTokens = new Map((await database.getTokens({ is_active: true })).map(t => [t.token, t]));
+    const now = Date.now();
 
-    const playerIds = interestedTokens
-      .map(t => t.onesignal_player_id)
-      .filter(Boolean) as string[];
-    
-    if (playerIds.length === 0) {
-      console.log(`📭 No valid OneSignal player IDs for ${itemName} notifications`);
-      return;
-    }
+    for (const [token, entries] of byToken) {
+      const maxId = Math.max(...entries.map(entry => entry.id ?? 0));
+      const tokenEntry = activeTokens.get(token);
 
-    console.log(`📤 Sending ${itemName} notifications to ${playerIds.length} users via OneSignal (database)...`);
+      // Unregistered or deactivated devices will never get their summary
+      if (!tokenEntry?.onesignal_player_id) {
+        await database.deleteDeferredNotifications(token, maxId);
+        continue;
+      }
 
-    const { success, failedPlayerIds } = await sendOneSignalNotification(
-      playerIds,
-      `${assets.emoji} ${itemName} in Stock!`,
-      `${itemName} is now available! Quantity: ${quantity}`,
-      notificationData
-    );
+      if (isWithinQuietHours(parseQuietHours(tokenEntry.quiet_hours), tokenEntry.time_zone ?? undefined, now)) {
+        continue;
+      }
 
-    if (success) {
-      console.log(`✅ ${itemName} notification sent successfully to ${playerIds.length} devices`);
-      
-      // Update last_used for successful tokens
-      for (const token of interestedTokens) {
-        await database.updateToken(token.token, { 
-          last_used: new Date().toISOString(),
-          failure_count: 0 
-        });
+      // One line per item with its latest quantity, rarest first
+      const latest = new Map<string, { id: string; name: string; quantity: number }>();
+      for (const entry of entries) {
+        latest.set(entry.item_name, { id: entry.item_name, name: entry.item_name, quantity: entry.quantity });
+      }
+      const items = itemCatalog.sortByRarity(Array.from(latest.values()));
+      const listed = items.slice(0, 10).map(item => `${item.name} x${item.quantity}`);
+      const more = items.length > listed.length ? ` and ${items.length - listed.length} more` : '';
+
+      const notificationData: NotificationData = {
+        itemName: 'Quiet hours summary',
+        rarity: 'summary',
+        quantity: items.length,
+        type: 'stock_update',
+        timestamp: new Date(now).toISOString(),
+        channel: 'summary'
+      };
+
+      console.log(`🌅 Sending quiet hours summary (${items.length} items) to ${token.substring(0, 20)}...`);
+
+      const { success } = await sendOneSignalNotification(
+        [tokenEntry.onesignal_player_id],
+        `🌅 While you were away`,
+        `${listed.join(', ')}${more}`,
+        notificationData
+      );
+
+      if (success) {
+        await database.deleteDeferredNotifications(token, maxId);
       }
-    } else {
-      console.log(`❌ ${itemName} notification failed for ${failedPlayerIds.length} devices`);
     }
   } catch (error) {
-    console.error(`❌ Error sending ${itemName} notification:`, error);
+    console.error(`❌ Error sending quiet hours summaries:`, error);
   }
 }
 
-export async function sendRareItemNotification(itemName: string, rarity: string, quantity: number, channel?: string) {
+function buildItemMessage(itemName: string, quantity: number, category: string) {
+  const assets = categoryAssets[category as keyof typeof categoryAssets] || categoryAssets.Default;
+  const data: NotificationData = {
+    itemName,
+    rarity: 'Common',
+    quantity,
+    type: 'rare_item_alert',
+    timestamp: new Date().toISOString(),
+    channel: category.toLowerCase()
+  };
+
+  return {
+    title: `${assets.emoji} ${itemName} in Stock!`,
+    message: `${itemName} is now available! Quantity: ${quantity}`,
+    data
+  };
+}
+
+// e.g. "🌱 Seeds: Beanstalk x2, Ember Lily x1, Grape x3", items are already rarest first
+function buildDigestMessage(category: string, items: Array<{ name: string; quantity: number }>) {
+  const categoryName = itemCatalog.getCategories().find(c => c.id === category)?.name ?? category;
+  const assets = categoryAssets[categoryName as keyof typeof categoryAssets] || categoryAssets.Default;
+  const data: NotificationData = {
+    itemName: categoryName,
+    rarity: 'digest',
+    quantity: items.length,
+    type: 'stock_update',
+    timestamp: new Date().toISOString(),
+    channel: category.toLowerCase()
+  };
+
+  return {
+    title: `${assets.emoji} ${assets.title}`,
+    message: `${assets.emoji} ${categoryName}: ${items.map(item => `${item.name} x${item.quantity}`).join(', ')}`,
+    data
+  };
+}
+
+// One push per request of the restock's fan-out plan, see notification-planner.ts
+export async function sendRestockNotifications(category: string, items: Array<{ id: string; name: string; quantity: number }>) {
   try {
     // Initialize database if needed
     await database.initialize();
     
     await database.cleanupExpiredTokens();
     
-    const interestedTokens = await database.getTokensForItem(itemName);
-    
-    if (interestedTokens.length === 0) {
-      console.log(`📭 No users have notifications enabled for ${itemName}`);
-      return;
-    }
+    const tokens = await database.getTokens({ is_active: true });
+    const plan = planRestockFanOut(category, items, tokens, Date.now(), ONESIGNAL_CONFIG.MAX_PLAYER_IDS_PER_REQUEST);
 
-    const notificationData: NotificationData = {
-      itemName,
-      rarity,
-      quantity,
-      type: 'rare_item_alert',
-      timestamp: new Date().toISOString(),
-      channel
-    };
+    console.log(`📊 ${category} fan-out: ${plan.plannedRequests} OneSignal requests planned vs ${plan.naiveRequests} naive per-item (${plan.devices} devices, ${items.length} items)`);
 
-    const playerIds = interestedTokens
-      .map(t => t.onesignal_player_id)
-      .filter(Boolean) as string[];
-    
-    if (playerIds.length === 0) {
-      console.log(`📭 No valid OneSignal player IDs for ${itemName} notifications`);
+    for (const entry of plan.deferred) {
+      await database.insertDeferredNotification(entry);
+    }
+    if (plan.deferred.length > 0 || plan.suppressed > 0) {
+      console.log(`🌙 Quiet hours for ${category}: ${plan.deferred.length} alerts deferred to morning summary, ${plan.suppressed} suppressed`);
+    }
+
+    if (plan.requests.length === 0) {
+      console.log(`📭 No users have notifications enabled for this ${category} restock`);
       return;
     }
 
-    console.log(`📤 Sending ${playerIds.length} rare item notifications via OneSignal (database)...`);
+    for (const request of plan.requests) {
+      const { title, message, data } = request.kind === 'item'
+        ? buildItemMessage(request.items[0].name, request.items[0].quantity, category)
+        : buildDigestMessage(category, request.items);
+      const label = request.kind === 'item' ? request.items[0].name : `${category} digest (${request.items.length} items)`;
 
-    const { success, failedPlayerIds } = await sendOneSignalNotification(
-      playerIds,
-      `Rare Item Alert! 🌱`,
-      `${itemName} (${rarity}) is in stock! Quantity: ${quantity}`,
-      notificationData
-    );
+      const playerIds = request.tokens.map(t => t.onesignal_player_id) as string[];
 
-    if (success) {
-      console.log(`✅ Rare item notification sent successfully to ${playerIds.length} devices`);
-      
-      // Update last_used for successful tokens
-      for (const token of interestedTokens) {
-        await database.updateToken(token.token, { 
-          last_used: new Date().toISOString(),
-          failure_count: 0 
-        });
+      console.log(`📤 Sending ${label} to ${playerIds.length} users via OneSignal (database)...`);
+
+      const { success, failedPlayerIds } = await sendBatchedNotifications(playerIds, title, message, data);
+
+      if (success) {
+        console.log(`✅ ${label} sent successfully to ${playerIds.length} devices`);
+        
+        // Update last_used for successful tokens
+        for (const token of request.tokens) {
+          await database.updateToken(token.token, { 
+            last_used: new Date().toISOString(),
+            failure_count: 0 
+          });
+        }
+      } else {
+        console.log(`❌ ${label} failed for ${failedPlayerIds.length} devices`);
       }
-    } else {
-      console.log(`❌ Rare item notification failed for ${failedPlayerIds.length} devices`);
     }
   } catch (error) {
-    console.error(`❌ Error sending rare item notification:`, error);
+    console.error(`❌ Error sending ${category} restock notifications:`, error);
   }
 }
 
@@ -484,7 +523,7 @@ export async function sendWeatherAlertNotification(weatherType: string, descript
     
     await database.cleanupExpiredTokens();
     
-    const interestedTokens = await database.getTokensForWeather();
+    const interestedTokens = applyQuietHours(await database.getTokensForWeather(), `weather ${weatherType}`);
     
     console.log(`🌤️ Weather notification: ${interestedTokens.length} tokens have weather enabled`);
     
@@ -545,7 +584,7 @@ export async function sendCategoryNotification(categoryName: string, categoryDis
     
     await database.cleanupExpiredTokens();
     
-    const interestedTokens = await database.getTokensForCategory(categoryName);
+    const interestedTokens = applyQuietHours(await database.getTokensForCategory(categoryName), categoryName);
     
     if (interestedTokens.length === 0) {
       console.log(`📭 No users have notifications enabled for ${categoryName}`);
@@ -635,6 +674,7 @@ export async function getTokenStats() {
 }
 
 export function getAllItems() {
-  return ALL_ITEMS;
-} 
+  return getCatalogItemNames();
+}
+
  
\ No newline at end of file
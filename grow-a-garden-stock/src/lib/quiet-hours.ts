@@ -0,0 +1,128 @@
+// Shared by the preference routes and the notification sender, so this module
+// must not import anything local at runtime.
+
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+export interface QuietHoursWindow {
+  start: string; // "HH:MM" in the device's time zone
+  end: string; // Exclusive, a window ending before it starts runs past midnight
+}
+
+export interface QuietHoursSettings {
+  windows: QuietHoursWindow[];
+  breakthroughRarities: string[]; // Item alerts of these rarities are sent anyway
+  morningSummary: boolean; // Defer suppressed item alerts to one push when quiet hours end
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const MAX_WINDOWS = 4;
+
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== 'string' || timeZone.length === 0) {
+    return false;
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Returns an error message, or null when the value is a valid QuietHoursSettings
+export function validateQuietHours(value: unknown, rarities: string[]): string | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return 'quietHours must be an object or null';
+  }
+
+  const { windows, breakthroughRarities, morningSummary } = value as Record<string, unknown>;
+
+  if (!Array.isArray(windows) || windows.length === 0 || windows.length > MAX_WINDOWS) {
+    return `quietHours.windows must list 1 to ${MAX_WINDOWS} windows`;
+  }
+  for (const window of windows) {
+    const { start, end } = (window ?? {}) as Record<string, unknown>;
+    if (typeof start !== 'string' || !TIME_PATTERN.test(start) || typeof end !== 'string' || !TIME_PATTERN.test(end)) {
+      return 'Each quiet hours window needs start and end times as HH:MM';
+    }
+    if (start === end) {
+      return `Quiet hours window ${start}-${end} is empty`;
+    }
+  }
+
+  if (breakthroughRarities !== undefined) {
+    if (!Array.isArray(breakthroughRarities)) {
+      return 'quietHours.breakthroughRarities must be an array';
+    }
+    const unknown = breakthroughRarities.find(rarity => !rarities.includes(rarity as string));
+    if (unknown !== undefined) {
+      return `Unknown rarity: ${unknown}. Valid rarities: ${rarities.join(', ')}`;
+    }
+  }
+
+  if (morningSummary !== undefined && typeof morningSummary !== 'boolean') {
+    return 'quietHours.morningSummary must be a boolean';
+  }
+
+  return null;
+}
+
+// Fill in defaults for a validated request value before it is stored
+export function normalizeQuietHours(value: unknown): QuietHoursSettings {
+  const { windows, breakthroughRarities, morningSummary } = value as Partial<QuietHoursSettings>;
+  return {
+    windows: (windows ?? []).map(({ start, end }) => ({ start, end })),
+    breakthroughRarities: breakthroughRarities ?? [],
+    morningSummary: morningSummary ?? true
+  };
+}
+
+// Stored settings, or null when the device has none or they cannot be read
+export function parseQuietHours(json?: string | null): QuietHoursSettings | null {
+  if (!json) {
+    return null;
+  }
+  try {
+    return normalizeQuietHours(JSON.parse(json));
+  } catch {
+    return null;
+  }
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// Minutes since local midnight in the given time zone
+export function getLocalMinutes(now: number, timeZone: string = DEFAULT_TIME_ZONE): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(new Date(now));
+
+  const hour = Number(parts.find(part => part.type === 'hour')?.value ?? 0);
+  const minute = Number(parts.find(part => part.type === 'minute')?.value ?? 0);
+  return hour * 60 + minute;
+}
+
+export function isWithinQuietHours(settings: QuietHoursSettings | null, timeZone: string | undefined, now: number): boolean {
+  if (!settings || settings.windows.length === 0) {
+    return false;
+  }
+
+  const minutes = getLocalMinutes(now, timeZone);
+  return settings.windows.some(window => {
+    const start = toMinutes(window.start);
+    const end = toMinutes(window.end);
+    return start < end
+      ? minutes >= start && minutes < end
+      : minutes >= start || minutes < end;
+  });
+}
+
+export function canBreakThrough(settings: QuietHoursSettings, rarity: string | null): boolean {
+  return rarity !== null && settings.breakthroughRarities.includes(rarity);
+}
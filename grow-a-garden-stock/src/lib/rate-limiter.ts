@@ -0,0 +1,124 @@
+import database from './database';
+
+const RATE_LIMITER_CONFIG = {
+  // Keep windows in SQLite as well, so limits survive a restart
+  PERSIST: process.env.RATE_LIMIT_PERSIST === 'true',
+  SWEEP_INTERVAL_MS: 60 * 1000
+};
+
+export interface RateLimitRule {
+  limit: number; // Requests allowed inside the window
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number; // 0 when allowed
+  blockedInWindow: number; // Requests rejected for this key since its window last had room
+}
+
+interface SlidingWindow {
+  hits: number[]; // Times (ms) of allowed requests, oldest first
+  expiresAt: number;
+  blocked: number;
+}
+
+/**
+ * Sliding window log limiter. Every key keeps the times of its allowed
+ * requests inside the window; rejected requests are not recorded, so a client
+ * that backs off gets through as soon as its oldest request slides out.
+ */
+class RateLimiter {
+  private windows: Map<string, SlidingWindow> = new Map();
+  private loadPromise: Promise<void> | null = null;
+  private lastSweep = 0;
+
+  async hit(key: string, rule: RateLimitRule, now: number = Date.now()): Promise<RateLimitResult> {
+    await this.load(now);
+    this.sweep(now);
+
+    const windowStart = now - rule.windowMs;
+    const existing = this.windows.get(key);
+    const hits = existing ? existing.hits.filter(time => time > windowStart) : [];
+
+    if (hits.length >= rule.limit) {
+      const blocked = (existing?.blocked || 0) + 1;
+      this.windows.set(key, { hits, expiresAt: existing?.expiresAt ?? now, blocked });
+      return {
+        allowed: false,
+        remaining: 0,
+        retryAfterSeconds: Math.max(1, Math.ceil((hits[0] + rule.windowMs - now) / 1000)),
+        blockedInWindow: blocked
+      };
+    }
+
+    hits.push(now);
+    const window: SlidingWindow = { hits, expiresAt: now + rule.windowMs, blocked: 0 };
+    this.windows.set(key, window);
+    this.persist(key, window);
+    return { allowed: true, remaining: rule.limit - hits.length, retryAfterSeconds: 0, blockedInWindow: 0 };
+  }
+
+  getTrackedKeyCount(): number {
+    return this.windows.size;
+  }
+
+  // Restore persisted windows once per process. Without persistence this does nothing.
+  private load(now: number): Promise<void> {
+    if (!RATE_LIMITER_CONFIG.PERSIST) {
+      return Promise.resolve();
+    }
+
+    if (!this.loadPromise) {
+      this.loadPromise = database.initialize()
+        .then(() => database.getRateLimits(now))
+        .then(entries => {
+          for (const entry of entries) {
+            if (!this.windows.has(entry.key)) {
+              this.windows.set(entry.key, { hits: JSON.parse(entry.hits) as number[], expiresAt: entry.expires_at, blocked: 0 });
+            }
+          }
+          console.log(`🚦 Restored ${entries.length} rate limit windows`);
+        })
+        .catch(error => {
+          // Limits still work in memory, they just started from scratch
+          console.error('❌ Error restoring rate limit windows:', error);
+        });
+    }
+    return this.loadPromise;
+  }
+
+  private persist(key: string, window: SlidingWindow) {
+    if (!RATE_LIMITER_CONFIG.PERSIST) {
+      return;
+    }
+
+    // Fire and forget - a slow database must not hold up the request
+    database.upsertRateLimit({ key, hits: JSON.stringify(window.hits), expires_at: window.expiresAt })
+      .catch(error => {
+        console.error(`❌ Error saving rate limit window ${key}:`, error);
+      });
+  }
+
+  private sweep(now: number) {
+    if (now - this.lastSweep < RATE_LIMITER_CONFIG.SWEEP_INTERVAL_MS) {
+      return;
+    }
+    this.lastSweep = now;
+
+    for (const [key, window] of this.windows) {
+      if (window.expiresAt <= now) {
+        this.windows.delete(key);
+      }
+    }
+
+    if (RATE_LIMITER_CONFIG.PERSIST) {
+      database.deleteExpiredRateLimits(now).catch(error => {
+        console.error('❌ Error deleting expired rate limit windows:', error);
+      });
+    }
+  }
+}
+
+export const rateLimiter = new RateLimiter();
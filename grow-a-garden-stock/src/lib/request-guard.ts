@@ -0,0 +1,161 @@
+import { createHash } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { rateLimiter } from './rate-limiter';
+
+const REQUEST_GUARD_CONFIG = {
+  WINDOW_MS: parseInt(process.env.RATE_LIMIT_WINDOW_SECONDS || '60') * 1000,
+  MAX_PER_IP: parseInt(process.env.RATE_LIMIT_MAX_PER_IP || '30'),
+  MAX_PER_TOKEN: parseInt(process.env.RATE_LIMIT_MAX_PER_TOKEN || '10'),
+  // New token registrations per window for each client fingerprint when the address is unknown
+  MAX_NEW_REGISTRATIONS_UNKNOWN_IP: parseInt(process.env.RATE_LIMIT_MAX_NEW_REGISTRATIONS_UNKNOWN_IP || '30'),
+  // Required: reverse proxies in front of the app that append to X-Forwarded-For.
+  // Set 0 when served straight from next start, the forwarding headers are then
+  // client-chosen and ignored. Unset is treated as 0 with a warning at startup.
+  TRUSTED_PROXY_COUNT: process.env.TRUSTED_PROXY_COUNT === undefined ? null : parseInt(process.env.TRUSTED_PROXY_COUNT),
+  // Test tokens skip token validation, so by default they only work in development
+  ALLOW_TEST_TOKENS: process.env.ALLOW_TEST_TOKENS
+    ? process.env.ALLOW_TEST_TOKENS === 'true'
+    : process.env.NODE_ENV === 'development'
+};
+
+// Public routes that create or change push tokens, each limited separately
+export type GuardedRoute = 'register' | 'unregister' | 'update_preferences' | 'get_preferences';
+export type BlockReason = 'ip_rate_limit' | 'token_rate_limit' | 'test_token' | 'new_registration_limit';
+
+export interface BlockedRequestStats {
+  since: string;
+  total: number;
+  byRoute: Partial<Record<GuardedRoute, Partial<Record<BlockReason, number>>>>;
+}
+
+const blockedStats: BlockedRequestStats = { since: new Date().toISOString(), total: 0, byRoute: {} };
+
+// Route handlers cannot see the socket address, so the client address is only
+// known when trusted proxies report it. Each trusted proxy appends the address
+// it received the request from, so the entry TRUSTED_PROXY_COUNT from the end
+// was written by our outermost proxy; anything before it came from the client.
+export function getClientIP(req: NextRequest): string {
+  const trustedProxies = REQUEST_GUARD_CONFIG.TRUSTED_PROXY_COUNT ?? 0;
+  if (!(trustedProxies > 0)) {
+    return 'unknown';
+  }
+
+  const forwarded = req.headers.get('x-forwarded-for');
+  if (forwarded) {
+    const hops = forwarded.split(',').map(hop => hop.trim()).filter(Boolean);
+    return hops.length >= trustedProxies ? hops[hops.length - trustedProxies] : 'unknown';
+  }
+
+  // Single-value headers set (not appended) by the proxy itself
+  return req.headers.get('x-real-ip') || req.headers.get('cf-connecting-ip') || 'unknown';
+}
+
+// Called once at startup (see src/instrumentation.ts)
+export function warnIfProxyUnconfigured() {
+  const trustedProxies = REQUEST_GUARD_CONFIG.TRUSTED_PROXY_COUNT;
+  if (trustedProxies !== null && !Number.isNaN(trustedProxies)) {
+    return;
+  }
+  console.warn('🚨 ================================================================');
+  console.warn(`🚨 TRUSTED_PROXY_COUNT is ${trustedProxies === null ? 'not set' : 'not a number'}. Client addresses are unknown,`);
+  console.warn('🚨 so per-IP rate limits on the push token routes are OFF.');
+  console.warn('🚨 Set it to the number of reverse proxies in front of the app (0 for none).');
+  console.warn('🚨 ================================================================');
+}
+
+export function isTestToken(token: unknown): boolean {
+  return typeof token === 'string' && token.startsWith('ExponentPushToken[test');
+}
+
+export function getBlockedRequestStats(): BlockedRequestStats {
+  return JSON.parse(JSON.stringify(blockedStats)) as BlockedRequestStats;
+}
+
+function recordBlocked(route: GuardedRoute, reason: BlockReason) {
+  const counts = blockedStats.byRoute[route] || (blockedStats.byRoute[route] = {});
+  counts[reason] = (counts[reason] || 0) + 1;
+  blockedStats.total++;
+}
+
+function tooManyRequests(retryAfterSeconds: number) {
+  return NextResponse.json(
+    { error: 'Too many requests', details: `Rate limit exceeded, retry in ${retryAfterSeconds}s` },
+    { status: 429, headers: { 'Retry-After': retryAfterSeconds.toString() } }
+  );
+}
+
+/**
+ * Shared abuse protection for the public push token routes: per-IP and
+ * per-token rate limits, and rejection of test tokens outside development.
+ * Returns the response to send when the request is blocked, otherwise null.
+ */
+export async function guardPublicRequest(req: NextRequest, route: GuardedRoute, token: unknown): Promise<NextResponse | null> {
+  const rule = { windowMs: REQUEST_GUARD_CONFIG.WINDOW_MS };
+  const ip = getClientIP(req);
+
+  // Without a trusted address every client would share one bucket, so only the token
+  // limit applies here and new registrations get a global limit, see guardNewRegistration
+  if (ip !== 'unknown') {
+    const result = await rateLimiter.hit(`${route}:ip:${ip}`, { ...rule, limit: REQUEST_GUARD_CONFIG.MAX_PER_IP });
+    if (!result.allowed) {
+      recordBlocked(route, 'ip_rate_limit');
+      if (result.blockedInWindow === 1) {
+        console.warn(`🚦 Rate limited ${route} requests from ${ip}`);
+      }
+      return tooManyRequests(result.retryAfterSeconds);
+    }
+  }
+
+  if (isTestToken(token) && !REQUEST_GUARD_CONFIG.ALLOW_TEST_TOKENS) {
+    recordBlocked(route, 'test_token');
+    return NextResponse.json(
+      { error: 'Invalid token', details: 'Test tokens are not accepted' },
+      { status: 400 }
+    );
+  }
+
+  if (typeof token === 'string' && token) {
+    // Hash the token so arbitrary client input never ends up as a key
+    const tokenKey = createHash('sha256').update(token).digest('hex').substring(0, 32);
+    const result = await rateLimiter.hit(`${route}:token:${tokenKey}`, { ...rule, limit: REQUEST_GUARD_CONFIG.MAX_PER_TOKEN });
+    if (!result.allowed) {
+      recordBlocked(route, 'token_rate_limit');
+      if (result.blockedInWindow === 1) {
+        console.warn(`🚦 Rate limited ${route} requests for token ${token.substring(0, 20)}...`);
+      }
+      return tooManyRequests(result.retryAfterSeconds);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Extra limit for creating a token that is not stored yet. Rotating random
+ * tokens gets past the per-token limit, so when the client address is unknown
+ * new registrations are limited per header fingerprint. A client that fills
+ * its own bucket only blocks requests that look exactly like its own, unlike
+ * one bucket shared by every new device.
+ */
+export async function guardNewRegistration(req: NextRequest): Promise<NextResponse | null> {
+  if (getClientIP(req) !== 'unknown') {
+    return null;
+  }
+
+  const fingerprint = createHash('sha256')
+    .update(`${req.headers.get('user-agent') ?? ''}\n${req.headers.get('accept-language') ?? ''}`)
+    .digest('hex').substring(0, 32);
+  const result = await rateLimiter.hit(`register:new:unknown_ip:${fingerprint}`, {
+    windowMs: REQUEST_GUARD_CONFIG.WINDOW_MS,
+    limit: REQUEST_GUARD_CONFIG.MAX_NEW_REGISTRATIONS_UNKNOWN_IP
+  });
+  if (!result.allowed) {
+    recordBlocked('register', 'new_registration_limit');
+    if (result.blockedInWindow === 1) {
+      console.warn(`🚦 Rate limited new token registrations from unknown addresses (user agent: ${req.headers.get('user-agent')?.substring(0, 60) ?? 'none'})`);
+    }
+    return tooManyRequests(result.retryAfterSeconds);
+  }
+
+  return null;
+}
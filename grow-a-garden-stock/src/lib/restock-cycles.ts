@@ -0,0 +1,189 @@
+import database from './database.js';
+import { REFRESH_INTERVALS, RESTOCK_CATEGORIES, getCycleIndex, getCycleStart } from './restock-schedule.js';
+import type { RestockCategory } from './restock-schedule.js';
+import { itemSetsMatch } from './stock-comparison.js';
+import type { ReportedItem } from './stock-comparison.js';
+import type { StockSourceName } from './stock-source.js';
+
+const RESTOCK_CYCLE_CONFIG = {
+  // How long after a cycle ends before it counts as empty when nothing was delivered
+  EMPTY_GRACE_MS: parseInt(process.env.RESTOCK_EMPTY_GRACE_SECONDS || '90') * 1000,
+  RETAINED_CYCLES: 12 // In-memory cycles kept per category
+};
+
+export type RestockCycleStatus = 'open' | 'delivered' | 'empty';
+
+export interface RestockCycle {
+  category: RestockCategory;
+  cycleIndex: number;
+  start: number; // ms
+  end: number; // ms, start of the next cycle
+  status: RestockCycleStatus;
+  confirmingSources: StockSourceName[]; // Sources whose report matched the final item set
+  reportingSources: StockSourceName[]; // Every source that reported, accepted or not
+  items: ReportedItem[] | null; // Final item set, null until a report is accepted
+  deliveredBy: StockSourceName | null;
+  firstReportedAt: number | null;
+}
+
+export interface CycleAttribution {
+  cycle: RestockCycle;
+  // The report matches the item set already accepted for this cycle
+  duplicate: boolean;
+}
+
+/**
+ * Maps every stock report to the restock cycle it belongs to, so repeated
+ * reports of the same restock (late Discord posts, resent WebSocket frames)
+ * are recognised as such, and cycles that never got any data stand out.
+ */
+class RestockCycleTracker {
+  private cycles: Map<string, RestockCycle> = new Map();
+  // Next cycle per category to check for emptiness. Cycles before the first
+  // check happened before startup and are never flagged.
+  private nextCycleToCheck: Map<RestockCategory, number> = new Map();
+
+  /**
+   * Attribute a source's item report to its cycle. Call before deciding
+   * whether to accept the update.
+   */
+  attribute(source: StockSourceName, category: RestockCategory, items: ReportedItem[], timestamp: number): CycleAttribution {
+    const cycle = this.getOrCreate(category, getCycleIndex(timestamp, REFRESH_INTERVALS[category]));
+
+    if (!cycle.reportingSources.includes(source)) {
+      cycle.reportingSources.push(source);
+    }
+    if (cycle.firstReportedAt === null) {
+      cycle.firstReportedAt = timestamp;
+    }
+
+    const duplicate = cycle.items !== null && itemSetsMatch(cycle.items, items);
+    if (duplicate && !cycle.confirmingSources.includes(source)) {
+      cycle.confirmingSources.push(source);
+    }
+
+    this.persist(cycle, timestamp);
+    return { cycle, duplicate };
+  }
+
+  /**
+   * Record the item set that was accepted for the cycle. A later accepted
+   * report (e.g. a correction from a higher priority source) replaces it.
+   */
+  recordAccepted(source: StockSourceName, category: RestockCategory, items: ReportedItem[], timestamp: number): RestockCycle {
+    const cycle = this.getOrCreate(category, getCycleIndex(timestamp, REFRESH_INTERVALS[category]));
+    const replacesItems = cycle.items !== null && !itemSetsMatch(cycle.items, items);
+
+    cycle.items = items.map(item => ({ id: item.id, name: item.name, quantity: item.quantity }));
+    cycle.status = 'delivered';
+    cycle.deliveredBy = source;
+    // Confirmations of a replaced item set no longer hold
+    cycle.confirmingSources = replacesItems ? [source] : Array.from(new Set([...cycle.confirmingSources, source]));
+
+    this.persist(cycle, timestamp);
+    this.prune(category, cycle.cycleIndex);
+    return cycle;
+  }
+
+  /**
+   * Mark ended cycles that never received an accepted item set as empty.
+   * Returns the cycles that became empty with this check.
+   */
+  checkForEmptyCycles(now: number): RestockCycle[] {
+    const emptied: RestockCycle[] = [];
+
+    for (const category of RESTOCK_CATEGORIES) {
+      const interval = REFRESH_INTERVALS[category];
+      const currentIndex = getCycleIndex(now, interval);
+      if (!this.nextCycleToCheck.has(category)) {
+        this.nextCycleToCheck.set(category, currentIndex);
+        continue;
+      }
+
+      // Cycles older than the retained window have been pruned, never look further back
+      let cycleIndex = Math.max(this.nextCycleToCheck.get(category)!, currentIndex - RESTOCK_CYCLE_CONFIG.RETAINED_CYCLES + 1);
+      for (; cycleIndex < currentIndex; cycleIndex++) {
+        const end = getCycleStart(cycleIndex + 1, interval);
+        if (now < end + RESTOCK_CYCLE_CONFIG.EMPTY_GRACE_MS) {
+          break;
+        }
+
+        const cycle = this.getOrCreate(category, cycleIndex);
+        if (cycle.status === 'open') {
+          cycle.status = 'empty';
+          const reporters = cycle.reportingSources.length > 0
+            ? `reports from ${cycle.reportingSources.join(', ')} were not accepted`
+            : 'no source reported';
+          console.warn(`🕳️ No ${category} data for restock cycle ${cycleIndex} (${new Date(cycle.start).toISOString()}) - ${reporters}`);
+          this.persist(cycle, now);
+          emptied.push(cycle);
+        }
+      }
+      this.nextCycleToCheck.set(category, cycleIndex);
+      this.prune(category, currentIndex);
+    }
+
+    return emptied;
+  }
+
+  getCycle(category: RestockCategory, cycleIndex: number): RestockCycle | undefined {
+    return this.cycles.get(`${category}:${cycleIndex}`);
+  }
+
+  getCurrentCycle(category: RestockCategory, now: number): RestockCycle | undefined {
+    return this.getCycle(category, getCycleIndex(now, REFRESH_INTERVALS[category]));
+  }
+
+  private getOrCreate(category: RestockCategory, cycleIndex: number): RestockCycle {
+    const key = `${category}:${cycleIndex}`;
+    let cycle = this.cycles.get(key);
+    if (!cycle) {
+      const interval = REFRESH_INTERVALS[category];
+      cycle = {
+        category,
+        cycleIndex,
+        start: getCycleStart(cycleIndex, interval),
+        end: getCycleStart(cycleIndex + 1, interval),
+        status: 'open',
+        confirmingSources: [],
+        reportingSources: [],
+        items: null,
+        deliveredBy: null,
+        firstReportedAt: null
+      };
+      this.cycles.set(key, cycle);
+    }
+    return cycle;
+  }
+
+  private prune(category: RestockCategory, currentCycle: number) {
+    for (const [key, cycle] of this.cycles) {
+      if (cycle.category === category && cycle.cycleIndex <= currentCycle - RESTOCK_CYCLE_CONFIG.RETAINED_CYCLES) {
+        this.cycles.delete(key);
+      }
+    }
+  }
+
+  private persist(cycle: RestockCycle, timestamp: number) {
+    // Fire and forget - cycle bookkeeping must never block stock updates
+    database.initialize()
+      .then(() => database.upsertRestockCycle({
+        category: cycle.category,
+        cycle_index: cycle.cycleIndex,
+        cycle_start: new Date(cycle.start).toISOString(),
+        cycle_end: new Date(cycle.end).toISOString(),
+        status: cycle.status,
+        confirming_sources: JSON.stringify(cycle.confirmingSources),
+        reporting_sources: JSON.stringify(cycle.reportingSources),
+        items: cycle.items ? JSON.stringify(cycle.items) : null,
+        delivered_by: cycle.deliveredBy,
+        first_reported_at: cycle.firstReportedAt !== null ? new Date(cycle.firstReportedAt).toISOString() : null,
+        updated_at: new Date(timestamp).toISOString()
+      }))
+      .catch(error => {
+        console.error(`❌ Error recording ${cycle.category} restock cycle ${cycle.cycleIndex}:`, error);
+      });
+  }
+}
+
+export const restockCycleTracker = new RestockCycleTracker();
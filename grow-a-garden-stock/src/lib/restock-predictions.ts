@@ -0,0 +1,166 @@
+import database from './database';
+import { itemCatalog } from './item-catalog';
+import { REFRESH_INTERVALS, calculateNextUpdate, getCycleIndex } from './restock-schedule';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Below this many observed cycles the estimates would mostly reflect the smoothing prior
+const MIN_CYCLES_FOR_ESTIMATE = 12;
+// History only grows once per restock, so a short cache keeps polling clients off the database
+const HISTORY_CACHE_MS = 60 * 1000;
+
+export type PredictionCategory = 'seeds' | 'gear' | 'eggs';
+export const PREDICTION_CATEGORIES: PredictionCategory[] = ['seeds', 'gear', 'eggs'];
+
+export interface ItemPrediction {
+  itemId: string;
+  name: string;
+  category: PredictionCategory;
+  // The estimates are null with 'insufficient' confidence until MIN_CYCLES_FOR_ESTIMATE cycles are observed
+  probabilityNextCycle: number | null; // Chance (0-1) of appearing in the next restock
+  expectedWaitMinutes: number | null; // Expected time until the item next appears
+  expectedNextAppearance: string | null;
+  lastSeen: string | null;
+  appearances: number; // Restock cycles the item appeared in during the window
+  cyclesObserved: number;
+  confidence: 'insufficient' | 'low' | 'medium' | 'high';
+}
+
+export interface CategoryPredictions {
+  category: PredictionCategory;
+  nextRestock: string;
+  refreshIntervalMinutes: number;
+  cyclesObserved: number;
+  items: ItemPrediction[];
+}
+
+interface HistoryItem {
+  id: string;
+  quantity: number;
+}
+
+interface HistorySummary {
+  cyclesObserved: number;
+  itemAppearances: Map<string, number>; // Cycles each item appeared in
+  lastSeen: Map<string, string>;
+}
+
+const historyCache = new Map<string, { summary: HistorySummary; expiresAt: number }>();
+
+// Scan the category's history over the window once and count cycles per item
+async function summarizeHistory(category: PredictionCategory, windowDays: number, now: Date): Promise<HistorySummary> {
+  const cacheKey = `${category}:${windowDays}`;
+  const cached = historyCache.get(cacheKey);
+  if (cached && cached.expiresAt > now.getTime()) {
+    return cached.summary;
+  }
+
+  const interval = REFRESH_INTERVALS[category];
+  await database.initialize();
+  const entries = await database.getStockHistory({
+    category,
+    from: new Date(now.getTime() - windowDays * DAY_MS).toISOString()
+  });
+
+  // Several sources may report the same restock, count each cycle once
+  const observedCycles = new Set<number>();
+  const itemCycles = new Map<string, Set<number>>();
+  const lastSeen = new Map<string, string>();
+
+  for (const entry of entries) {
+    const cycle = getCycleIndex(new Date(entry.recorded_at).getTime(), interval);
+    observedCycles.add(cycle);
+
+    let items: HistoryItem[] = [];
+    try {
+      items = JSON.parse(entry.items) as HistoryItem[];
+    } catch {
+      continue;
+    }
+
+    for (const item of items) {
+      if (!itemCycles.has(item.id)) {
+        itemCycles.set(item.id, new Set());
+      }
+      itemCycles.get(item.id)!.add(cycle);
+
+      // Entries come back newest first
+      if (!lastSeen.has(item.id)) {
+        lastSeen.set(item.id, entry.recorded_at);
+      }
+    }
+  }
+
+  const summary: HistorySummary = {
+    cyclesObserved: observedCycles.size,
+    itemAppearances: new Map(Array.from(itemCycles, ([id, cycles]) => [id, cycles.size])),
+    lastSeen
+  };
+  historyCache.set(cacheKey, { summary, expiresAt: now.getTime() + HISTORY_CACHE_MS });
+  return summary;
+}
+
+/**
+ * Estimate restock chances for every catalog item in a category.
+ * Each restock cycle is treated as an independent draw, so the chance of
+ * appearing is the item's observed appearance rate (Laplace smoothed so
+ * never-seen items keep a small non-zero chance) and the wait until the
+ * next appearance follows a geometric distribution from the next boundary.
+ */
+export async function getCategoryPredictions(category: PredictionCategory, windowDays: number = 14): Promise<CategoryPredictions> {
+  const interval = REFRESH_INTERVALS[category];
+  const now = new Date();
+  const nextRestock = calculateNextUpdate(interval, now);
+  const minutesUntilNextRestock = (new Date(nextRestock).getTime() - now.getTime()) / 60000;
+
+  const { cyclesObserved, itemAppearances, lastSeen } = await summarizeHistory(category, windowDays, now);
+  const confidence: ItemPrediction['confidence'] = cyclesObserved < MIN_CYCLES_FOR_ESTIMATE ? 'insufficient'
+    : cyclesObserved < 50 ? 'low' : cyclesObserved < 500 ? 'medium' : 'high';
+
+  const items: ItemPrediction[] = itemCatalog.getItems(category).map(({ id: itemId, name }) => {
+    const appearances = itemAppearances.get(itemId) ?? 0;
+
+    if (confidence === 'insufficient') {
+      return {
+        itemId,
+        name,
+        category,
+        probabilityNextCycle: null,
+        expectedWaitMinutes: null,
+        expectedNextAppearance: null,
+        lastSeen: lastSeen.get(itemId) ?? null,
+        appearances,
+        cyclesObserved,
+        confidence
+      };
+    }
+
+    const probability = (appearances + 1) / (cyclesObserved + 2);
+
+    // Mean of a geometric distribution is 1/p draws, the first draw is the next restock
+    const expectedWaitMinutes = minutesUntilNextRestock + (1 / probability - 1) * interval;
+
+    return {
+      itemId,
+      name,
+      category,
+      probabilityNextCycle: Math.round(probability * 10000) / 10000,
+      expectedWaitMinutes: Math.round(expectedWaitMinutes),
+      expectedNextAppearance: new Date(now.getTime() + expectedWaitMinutes * 60000).toISOString(),
+      lastSeen: lastSeen.get(itemId) ?? null,
+      appearances,
+      cyclesObserved,
+      confidence
+    };
+  });
+
+  // Without estimates the appearance counts give the same order
+  items.sort((a, b) => (b.probabilityNextCycle ?? b.appearances) - (a.probabilityNextCycle ?? a.appearances));
+
+  return {
+    category,
+    nextRestock,
+    refreshIntervalMinutes: interval,
+    cyclesObserved,
+    items
+  };
+}
@@ -0,0 +1,37 @@
+// Shop restock schedule shared by the stock manager and the API routes.
+// Every shop restocks on fixed boundaries since the Unix epoch, so a
+// timestamp can always be mapped to the restock cycle it belongs to.
+
+export type RestockCategory = 'seeds' | 'gear' | 'eggs' | 'cosmetics' | 'events';
+
+// Refresh interval in minutes for each category
+export const REFRESH_INTERVALS: Record<RestockCategory, number> = {
+  seeds: 5,
+  gear: 5,
+  eggs: 30,
+  cosmetics: 240,
+  events: 30
+};
+
+export const RESTOCK_CATEGORIES = Object.keys(REFRESH_INTERVALS) as RestockCategory[];
+
+export function isRestockCategory(category: string): category is RestockCategory {
+  return (RESTOCK_CATEGORIES as string[]).includes(category);
+}
+
+// Index of the restock cycle that contains the given time
+export function getCycleIndex(timestampMs: number, intervalMinutes: number): number {
+  const minutesSinceEpoch = Math.floor(timestampMs / (1000 * 60));
+  return Math.floor(minutesSinceEpoch / intervalMinutes);
+}
+
+// Start time (ms) of the given restock cycle
+export function getCycleStart(cycleIndex: number, intervalMinutes: number): number {
+  return cycleIndex * intervalMinutes * 60 * 1000;
+}
+
+// Next restock boundary after the given time
+export function calculateNextUpdate(intervalMinutes: number, now: Date = new Date()): string {
+  const intervalsSinceEpoch = getCycleIndex(now.getTime(), intervalMinutes);
+  return new Date(getCycleStart(intervalsSinceEpoch + 1, intervalMinutes)).toISOString();
+}
@@ -0,0 +1,100 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Message } from 'discord.js';
+import type { StockSourceName } from './stock-source.js';
+
+// One line per raw message, in the order received. Replayed by replay-source-archive.ts.
+export interface RecordedWebSocketFrame {
+  receivedAt: string;
+  source: StockSourceName;
+  kind: 'websocket';
+  data: string; // Frame exactly as received, parsing happens on replay
+}
+
+export interface RecordedDiscordMessage {
+  receivedAt: string;
+  source: StockSourceName;
+  kind: 'discord';
+  data: {
+    id: string;
+    channelId: string;
+    content: string;
+    embeds: unknown[];
+    components: unknown[];
+  };
+}
+
+export type RecordedMessage = RecordedWebSocketFrame | RecordedDiscordMessage;
+
+class SourceRecorder {
+  private stream: fs.WriteStream | null = null;
+  private enabled: boolean;
+  private recorded = 0;
+
+  constructor() {
+    // Recording is off unless a path is configured
+    this.enabled = Boolean(process.env.SOURCE_RECORD_PATH);
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  // Used by the replayer so replayed messages are not recorded again
+  disable() {
+    this.enabled = false;
+    this.close();
+  }
+
+  recordFrame(source: StockSourceName, rawMessage: string) {
+    this.append({ receivedAt: new Date().toISOString(), source, kind: 'websocket', data: rawMessage });
+  }
+
+  recordDiscordMessage(source: StockSourceName, message: Message) {
+    if (!this.enabled) return;
+    this.append({
+      receivedAt: new Date().toISOString(),
+      source,
+      kind: 'discord',
+      data: {
+        id: message.id,
+        channelId: message.channel.id,
+        content: message.content ?? '',
+        // Raw API shapes, which the parser reads the same way as the discord.js classes
+        embeds: (message.embeds ?? []).map(embed => embed.toJSON()),
+        components: (message.components ?? []).map(component => component.toJSON())
+      }
+    });
+  }
+
+  close() {
+    if (this.stream) {
+      this.stream.end();
+      this.stream = null;
+      console.log(`📼 Source recording closed (${this.recorded} messages)`);
+    }
+  }
+
+  private append(entry: RecordedMessage) {
+    if (!this.enabled) return;
+    try {
+      if (!this.stream) {
+        const recordPath = path.resolve(process.cwd(), process.env.SOURCE_RECORD_PATH!);
+        this.stream = fs.createWriteStream(recordPath, { flags: 'a' });
+        this.stream.on('error', error => {
+          console.error('❌ Source recording failed, disabling recorder:', error);
+          this.enabled = false;
+          this.stream = null;
+        });
+        console.log(`📼 Recording raw source messages to ${recordPath}`);
+      }
+      this.stream.write(JSON.stringify(entry) + '\n');
+      this.recorded++;
+    } catch (error) {
+      // Recording must never interfere with stock processing
+      console.error('❌ Error recording source message:', error);
+    }
+  }
+}
+
+export const sourceRecorder = new SourceRecorder();
@@ -0,0 +1,148 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { StockSourceName } from './stock-source';
+
+// The stock manager owns the live source state, the Next.js process only sees
+// this file. The stock manager rewrites it periodically, API routes read it.
+const STATUS_PATH = path.resolve(process.cwd(), 'source-status.json');
+const MESSAGE_RATE_WINDOW = 60 * 1000; // Messages per minute are counted over the last minute
+const MAX_DELAY_SAMPLES = 20; // Restock delays kept per source for the average
+
+export interface SourceStatus {
+  name: StockSourceName;
+  label: string;
+  priority: number;
+  online: boolean;
+  connected: boolean | null; // null when the source does not expose its connection state
+  lastMessageReceived: string | null;
+  lastAcceptedUpdate: string | null;
+  messagesPerMinute: number;
+  acceptedUpdates: number;
+  rejectedUpdates: number;
+  reconnectAttempts: number | null;
+  totalReconnects: number | null;
+  restockDelay: {
+    lastSeconds: number | null; // Seconds between the restock boundary and the source's first report
+    averageSeconds: number | null;
+    samples: number;
+  };
+  consensus: {
+    agreements: number;
+    disagreements: number;
+  };
+}
+
+export interface SourceStatusFile {
+  updatedAt: string;
+  sources: SourceStatus[];
+}
+
+export interface SourceMetrics {
+  messagesPerMinute: number;
+  acceptedUpdates: number;
+  rejectedUpdates: number;
+  lastAcceptedUpdate: string | null;
+  lastDelaySeconds: number | null;
+  averageDelaySeconds: number | null;
+  delaySamples: number;
+}
+
+interface SourceCounters {
+  messageTimes: number[];
+  accepted: number;
+  rejected: number;
+  lastAccepted: string | null;
+  delays: number[];
+  lastReportedCycle: Map<string, number>; // category -> last cycle start seen
+}
+
+// Writer side (stock manager process)
+class SourceStatusTracker {
+  private counters: Map<StockSourceName, SourceCounters> = new Map();
+
+  recordMessage(source: StockSourceName, timestamp: number = Date.now()) {
+    const counters = this.getCounters(source);
+    counters.messageTimes.push(timestamp);
+    this.trimMessages(counters, timestamp);
+  }
+
+  recordDecision(source: StockSourceName, accepted: boolean, timestamp: number = Date.now()) {
+    const counters = this.getCounters(source);
+    if (accepted) {
+      counters.accepted++;
+      counters.lastAccepted = new Date(timestamp).toISOString();
+    } else {
+      counters.rejected++;
+    }
+  }
+
+  // Only the first report of each restock cycle counts towards the delay
+  recordRestockReport(source: StockSourceName, category: string, cycleStartMs: number, timestamp: number = Date.now()) {
+    const counters = this.getCounters(source);
+    if (counters.lastReportedCycle.get(category) === cycleStartMs) {
+      return;
+    }
+    counters.lastReportedCycle.set(category, cycleStartMs);
+    counters.delays.push((timestamp - cycleStartMs) / 1000);
+    if (counters.delays.length > MAX_DELAY_SAMPLES) {
+      counters.delays.shift();
+    }
+  }
+
+  getMetrics(source: StockSourceName, now: number = Date.now()): SourceMetrics {
+    const counters = this.getCounters(source);
+    this.trimMessages(counters, now);
+    const delays = counters.delays;
+    return {
+      messagesPerMinute: counters.messageTimes.length,
+      acceptedUpdates: counters.accepted,
+      rejectedUpdates: counters.rejected,
+      lastAcceptedUpdate: counters.lastAccepted,
+      lastDelaySeconds: delays.length > 0 ? Math.round(delays[delays.length - 1] * 10) / 10 : null,
+      averageDelaySeconds: delays.length > 0 ? Math.round((delays.reduce((sum, d) => sum + d, 0) / delays.length) * 10) / 10 : null,
+      delaySamples: delays.length
+    };
+  }
+
+  write(sources: SourceStatus[]) {
+    const file: SourceStatusFile = { updatedAt: new Date().toISOString(), sources };
+    try {
+      // Atomic write so readers never see a half-written file
+      const tempPath = `${STATUS_PATH}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(file, null, 2), 'utf8');
+      fs.renameSync(tempPath, STATUS_PATH);
+    } catch (error) {
+      console.error('❌ Error saving source status:', error);
+    }
+  }
+
+  private getCounters(source: StockSourceName): SourceCounters {
+    let counters = this.counters.get(source);
+    if (!counters) {
+      counters = { messageTimes: [], accepted: 0, rejected: 0, lastAccepted: null, delays: [], lastReportedCycle: new Map() };
+      this.counters.set(source, counters);
+    }
+    return counters;
+  }
+
+  private trimMessages(counters: SourceCounters, now: number) {
+    const cutoff = now - MESSAGE_RATE_WINDOW;
+    while (counters.messageTimes.length > 0 && counters.messageTimes[0] <= cutoff) {
+      counters.messageTimes.shift();
+    }
+  }
+}
+
+// Reader side (API routes)
+export function readSourceStatus(): SourceStatusFile | null {
+  try {
+    if (fs.existsSync(STATUS_PATH)) {
+      return JSON.parse(fs.readFileSync(STATUS_PATH, 'utf-8')) as SourceStatusFile;
+    }
+  } catch (error) {
+    console.error('Error loading source status:', error);
+  }
+  return null;
+}
+
+export const sourceStatusTracker = new SourceStatusTracker();
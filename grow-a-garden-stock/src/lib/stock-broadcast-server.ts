@@ -0,0 +1,261 @@
+import { WebSocketServer, WebSocket } from 'ws';
+import { stockManager } from './stock-manager.js';
+import type { StockUpdateData, StockUpdateEvent } from './stock-manager-nextjs.js';
+
+// Channels clients can subscribe to: every stock category plus weather and merchant
+const CHANNELS = ['seeds', 'gear', 'eggs', 'cosmetics', 'events', 'weather', 'travellingMerchant'] as const;
+type Channel = typeof CHANNELS[number];
+
+// Channel names accepted from clients (short aliases for the merchant)
+const CHANNEL_ALIASES: Record<string, Channel> = {
+  merchant: 'travellingMerchant',
+  travelingMerchant: 'travellingMerchant'
+};
+
+const BROADCAST_CONFIG = {
+  PORT: parseInt(process.env.STOCK_BROADCAST_PORT || '3001'),
+  HEARTBEAT_INTERVAL: 30000, // Ping clients every 30 seconds, drop those that miss a pong
+  MAX_BUFFERED_BYTES: 1024 * 1024, // Per-connection backpressure limit (1 MB unsent)
+  MAX_MESSAGE_BYTES: 4096, // Subscribe messages are tiny, reject anything larger
+  MAX_CONNECTIONS: 1000
+};
+
+interface ClientMessage {
+  subscribe?: string[];
+  unsubscribe?: string[];
+}
+
+interface BroadcastClient {
+  socket: WebSocket;
+  subscriptions: Set<Channel>;
+  isAlive: boolean;
+  droppedMessages: number;
+}
+
+function resolveChannel(name: string): Channel | null {
+  if ((CHANNELS as readonly string[]).includes(name)) {
+    return name as Channel;
+  }
+  // Own keys only, so names like "constructor" are not mistaken for aliases
+  return Object.prototype.hasOwnProperty.call(CHANNEL_ALIASES, name) ? CHANNEL_ALIASES[name] : null;
+}
+
+// Messages must be { subscribe?: string[], unsubscribe?: string[] } naming known channels
+function validateClientMessage(value: unknown): { message: ClientMessage } | { error: string } {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { error: 'Message must be an object with subscribe and/or unsubscribe arrays' };
+  }
+
+  const { subscribe, unsubscribe } = value as Record<string, unknown>;
+  for (const [field, list] of [['subscribe', subscribe], ['unsubscribe', unsubscribe]] as const) {
+    if (list === undefined) continue;
+    if (!Array.isArray(list) || !list.every(name => typeof name === 'string')) {
+      return { error: `${field} must be an array of channel names` };
+    }
+  }
+
+  const requested = [...((subscribe as string[] | undefined) || []), ...((unsubscribe as string[] | undefined) || [])];
+  const unknown = requested.filter(name => !resolveChannel(name));
+  if (unknown.length > 0) {
+    return { error: `Unknown channels: ${unknown.join(', ')}` };
+  }
+
+  return { message: { subscribe: subscribe as string[] | undefined, unsubscribe: unsubscribe as string[] | undefined } };
+}
+
+// Pick only the parts of the stock data a client subscribed to
+function buildSnapshot(data: StockUpdateData, channels: Iterable<Channel>): Record<string, unknown> {
+  const snapshot: Record<string, unknown> = { lastUpdated: data.lastUpdated };
+  for (const channel of channels) {
+    snapshot[channel] = data[channel];
+  }
+  return snapshot;
+}
+
+class StockBroadcastServer {
+  private server: WebSocketServer | null = null;
+  private clients: Set<BroadcastClient> = new Set();
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private unsubscribeFromStockManager: (() => void) | null = null;
+
+  start(port: number = BROADCAST_CONFIG.PORT) {
+    if (this.server) {
+      return;
+    }
+
+    console.log(`📡 Starting public stock broadcast WebSocket server on port ${port}...`);
+    this.server = new WebSocketServer({ port, maxPayload: BROADCAST_CONFIG.MAX_MESSAGE_BYTES });
+
+    this.server.on('connection', (socket) => this.handleConnection(socket));
+
+    this.server.on('error', (error: Error) => {
+      console.error('❌ Stock broadcast server error:', error);
+    });
+
+    this.unsubscribeFromStockManager = stockManager.onStockUpdate((event) => this.broadcast(event));
+
+    this.heartbeatTimer = setInterval(() => {
+      for (const client of this.clients) {
+        if (!client.isAlive) {
+          console.log('💔 Terminating unresponsive broadcast client');
+          client.socket.terminate();
+          this.clients.delete(client);
+          continue;
+        }
+        client.isAlive = false;
+        client.socket.ping();
+      }
+    }, BROADCAST_CONFIG.HEARTBEAT_INTERVAL);
+
+    console.log('✅ Stock broadcast server started');
+  }
+
+  private handleConnection(socket: WebSocket) {
+    if (this.clients.size >= BROADCAST_CONFIG.MAX_CONNECTIONS) {
+      console.warn('⚠️ Broadcast server at connection limit, rejecting client');
+      socket.close(1013, 'Server is at capacity');
+      return;
+    }
+
+    // New clients are subscribed to everything until they say otherwise
+    const client: BroadcastClient = {
+      socket,
+      subscriptions: new Set(CHANNELS),
+      isAlive: true,
+      droppedMessages: 0
+    };
+    this.clients.add(client);
+    console.log(`🔌 Broadcast client connected (${this.clients.size} connected)`);
+
+    socket.on('pong', () => {
+      client.isAlive = true;
+    });
+
+    socket.on('message', (data: Buffer) => this.handleMessage(client, data));
+
+    socket.on('close', () => {
+      this.clients.delete(client);
+      console.log(`🔌 Broadcast client disconnected (${this.clients.size} connected)`);
+    });
+
+    socket.on('error', (error: Error) => {
+      console.error('❌ Broadcast client error:', error.message);
+    });
+
+    this.send(client, {
+      type: 'snapshot',
+      channels: Array.from(client.subscriptions),
+      data: buildSnapshot(stockManager.getStockData(), client.subscriptions),
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  // Runs inside the ws 'message' listener, so nothing a client sends may throw out of here
+  private handleMessage(client: BroadcastClient, data: Buffer) {
+    try {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(data.toString());
+      } catch {
+        this.send(client, { type: 'error', error: 'Invalid JSON message' });
+        return;
+      }
+
+      const validation = validateClientMessage(parsed);
+      if ('error' in validation) {
+        this.send(client, { type: 'error', error: validation.error, channels: CHANNELS });
+        return;
+      }
+      const message = validation.message;
+
+      if (message.subscribe) {
+        // A subscribe message replaces the default "everything" subscription
+        client.subscriptions = new Set(message.subscribe.map(name => resolveChannel(name)!));
+      }
+
+      for (const name of message.unsubscribe || []) {
+        client.subscriptions.delete(resolveChannel(name)!);
+      }
+
+      this.send(client, {
+        type: 'subscribed',
+        channels: Array.from(client.subscriptions),
+        data: buildSnapshot(stockManager.getStockData(), client.subscriptions),
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error('❌ Error handling broadcast client message:', error);
+      this.send(client, { type: 'error', error: 'Could not process message' });
+    }
+  }
+
+  private broadcast(event: StockUpdateEvent) {
+    const channel = resolveChannel(event.category);
+    if (!channel) {
+      return;
+    }
+
+    const payload = JSON.stringify({
+      type: 'update',
+      sequence: event.sequence,
+      source: event.source,
+      channel,
+      stockId: event.stockId,
+      data: buildSnapshot(event.data, [channel]),
+      timestamp: event.timestamp
+    });
+
+    for (const client of this.clients) {
+      if (client.subscriptions.has(channel)) {
+        this.sendRaw(client, payload);
+      }
+    }
+  }
+
+  private send(client: BroadcastClient, message: Record<string, unknown>) {
+    this.sendRaw(client, JSON.stringify(message));
+  }
+
+  private sendRaw(client: BroadcastClient, payload: string) {
+    if (client.socket.readyState !== WebSocket.OPEN) {
+      return;
+    }
+
+    // Backpressure: a client that cannot keep up misses updates instead of growing our memory
+    if (client.socket.bufferedAmount > BROADCAST_CONFIG.MAX_BUFFERED_BYTES) {
+      client.droppedMessages++;
+      if (client.droppedMessages === 1 || client.droppedMessages % 100 === 0) {
+        console.warn(`⚠️ Broadcast client is too slow, dropped ${client.droppedMessages} messages`);
+      }
+      return;
+    }
+
+    client.socket.send(payload);
+  }
+
+  stop() {
+    console.log('🛑 Stopping stock broadcast server...');
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    if (this.unsubscribeFromStockManager) {
+      this.unsubscribeFromStockManager();
+      this.unsubscribeFromStockManager = null;
+    }
+    for (const client of this.clients) {
+      client.socket.close(1001, 'Server shutting down');
+    }
+    this.clients.clear();
+    if (this.server) {
+      this.server.close();
+      this.server = null;
+    }
+  }
+
+  getClientCount(): number {
+    return this.clients.size;
+  }
+}
+
+export const stockBroadcastServer = new StockBroadcastServer();
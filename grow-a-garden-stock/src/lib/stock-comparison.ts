@@ -0,0 +1,77 @@
+// Pure helpers for comparing what different sources reported for the same restock.
+// Used by the stock manager (consensus) and by API routes (discrepancy report).
+
+export interface ReportedItem {
+  id: string;
+  name: string;
+  quantity: number;
+}
+
+export interface ItemDifference {
+  itemId: string;
+  name: string;
+  quantities: Record<string, number | null>; // null = source did not report the item
+}
+
+function toQuantityMap(items: ReportedItem[]): Map<string, number> {
+  return new Map(items.map(item => [item.id, item.quantity]));
+}
+
+// Same items with the same quantities, order does not matter
+export function itemSetsMatch(a: ReportedItem[], b: ReportedItem[]): boolean {
+  const mapA = toQuantityMap(a);
+  const mapB = toQuantityMap(b);
+  if (mapA.size !== mapB.size) {
+    return false;
+  }
+  for (const [id, quantity] of mapA) {
+    if (mapB.get(id) !== quantity) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Group sources that reported identical item sets, largest group first.
+ * Ties keep the order the sources were given in.
+ */
+export function groupAgreeingSources(reports: Record<string, ReportedItem[]>): string[][] {
+  const groups: string[][] = [];
+  for (const source of Object.keys(reports)) {
+    const group = groups.find(g => itemSetsMatch(reports[g[0]], reports[source]));
+    if (group) {
+      group.push(source);
+    } else {
+      groups.push([source]);
+    }
+  }
+  return groups.sort((a, b) => b.length - a.length);
+}
+
+// Items whose presence or quantity is not the same across every source
+export function findItemDifferences(reports: Record<string, ReportedItem[]>): ItemDifference[] {
+  const sources = Object.keys(reports);
+  const names = new Map<string, string>();
+  for (const items of Object.values(reports)) {
+    for (const item of items) {
+      names.set(item.id, item.name);
+    }
+  }
+
+  const quantityMaps = Object.fromEntries(sources.map(source => [source, toQuantityMap(reports[source])]));
+  const differences: ItemDifference[] = [];
+
+  for (const [itemId, name] of names) {
+    const quantities: Record<string, number | null> = {};
+    for (const source of sources) {
+      quantities[source] = quantityMaps[source].get(itemId) ?? null;
+    }
+    const values = new Set(Object.values(quantities));
+    if (values.size > 1) {
+      differences.push({ itemId, name, quantities });
+    }
+  }
+
+  return differences.sort((a, b) => a.name.localeCompare(b.name));
+}
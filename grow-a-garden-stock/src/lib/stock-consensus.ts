@@ -0,0 +1,233 @@
+import database from './database.js';
+import { REFRESH_INTERVALS, getCycleIndex } from './restock-schedule.js';
+import type { RestockCategory } from './restock-schedule.js';
+import { findItemDifferences, groupAgreeingSources, itemSetsMatch } from './stock-comparison.js';
+import type { ReportedItem } from './stock-comparison.js';
+import type { StockSourceName } from './stock-source.js';
+
+const CONSENSUS_CONFIG = {
+  // Number of sources that must report identical items before notifications go out.
+  // 1 (the default) disables holding, notifications are sent as soon as an update is accepted.
+  QUORUM: parseInt(process.env.CONSENSUS_QUORUM || '1'),
+  // How long held notifications wait for other sources to confirm
+  TIMEOUT_MS: parseInt(process.env.CONSENSUS_TIMEOUT_SECONDS || '60') * 1000,
+  RETAINED_CYCLES: 3 // In-memory cycles kept per category
+};
+
+export type ConsensusStatus = 'single_source' | 'agreed' | 'disagreed';
+
+export interface ConsensusOutcome {
+  category: RestockCategory;
+  cycleIndex: number;
+  status: ConsensusStatus;
+  agreeingSources: StockSourceName[];
+  disagreeingSources: StockSourceName[];
+}
+
+interface HeldNotification {
+  items: ReportedItem[];
+  release: (items: ReportedItem[]) => void;
+  timer: NodeJS.Timeout;
+}
+
+interface CycleReports {
+  category: RestockCategory;
+  cycleIndex: number;
+  reports: Map<StockSourceName, ReportedItem[]>;
+  held: HeldNotification | null;
+  released: boolean;
+}
+
+class StockConsensus {
+  private cycles: Map<string, CycleReports> = new Map();
+  private sourceStats: Map<StockSourceName, { agreements: number; disagreements: number }> = new Map();
+
+  /**
+   * Record what a source reported for a category and compare it with the
+   * other sources that reported within the same restock cycle.
+   */
+  recordReport(source: StockSourceName, category: RestockCategory, items: ReportedItem[], timestamp: number = Date.now()): ConsensusOutcome {
+    const cycleIndex = getCycleIndex(timestamp, REFRESH_INTERVALS[category]);
+    const cycle = this.getCycle(category, cycleIndex);
+    const reportedItems = items.map(item => ({ id: item.id, name: item.name, quantity: item.quantity }));
+
+    // Compare with what the other sources said this cycle before storing
+    for (const [otherSource, otherItems] of cycle.reports) {
+      if (otherSource === source) continue;
+      const matches = itemSetsMatch(otherItems, reportedItems);
+      this.countComparison(source, matches);
+      if (!matches) {
+        console.log(`⚖️ ${source} disagrees with ${otherSource} on ${category} (cycle ${cycleIndex})`);
+      }
+    }
+
+    cycle.reports.set(source, reportedItems);
+    const outcome = this.evaluate(cycle);
+    this.persist(cycle, outcome, source, reportedItems, timestamp);
+    this.tryRelease(cycle, false);
+    this.prune(category, cycleIndex);
+    return outcome;
+  }
+
+  isHoldEnabled(): boolean {
+    return CONSENSUS_CONFIG.QUORUM > 1;
+  }
+
+  /**
+   * Hold notifications for an accepted update until a quorum of sources agrees,
+   * or until the timeout passes. Returns false when holding is disabled or the
+   * cycle was already released, in which case the caller should send directly.
+   */
+  holdNotifications(category: RestockCategory, items: ReportedItem[], release: (items: ReportedItem[]) => void, timestamp: number = Date.now()): boolean {
+    if (!this.isHoldEnabled()) {
+      return false;
+    }
+
+    const cycle = this.getCycle(category, getCycleIndex(timestamp, REFRESH_INTERVALS[category]));
+    if (cycle.released) {
+      return false;
+    }
+
+    if (cycle.held) {
+      // A later accepted update in the same cycle replaces the held items
+      cycle.held.items = items;
+      return true;
+    }
+
+    console.log(`⏳ Holding ${category} notifications until ${CONSENSUS_CONFIG.QUORUM} sources agree (cycle ${cycle.cycleIndex})`);
+    cycle.held = {
+      items,
+      release,
+      timer: setTimeout(() => this.tryRelease(cycle, true), CONSENSUS_CONFIG.TIMEOUT_MS)
+    };
+    this.tryRelease(cycle, false);
+    return true;
+  }
+
+  getSourceStats(): Record<StockSourceName, { agreements: number; disagreements: number }> {
+    return Object.fromEntries(this.sourceStats);
+  }
+
+  private evaluate(cycle: CycleReports): ConsensusOutcome {
+    const reports = Object.fromEntries(cycle.reports);
+    const groups = groupAgreeingSources(reports);
+    const sourceCount = cycle.reports.size;
+
+    let status: ConsensusStatus = 'disagreed';
+    if (sourceCount <= 1) {
+      status = 'single_source';
+    } else if (groups.length === 1) {
+      status = 'agreed';
+    }
+
+    // The largest group only counts as agreeing if more than one source is in it
+    const agreeingSources = groups[0] && groups[0].length > 1 ? groups[0] : [];
+    const disagreeingSources = status === 'disagreed'
+      ? Array.from(cycle.reports.keys()).filter(source => !agreeingSources.includes(source))
+      : [];
+
+    return { category: cycle.category, cycleIndex: cycle.cycleIndex, status, agreeingSources, disagreeingSources };
+  }
+
+  private tryRelease(cycle: CycleReports, timedOut: boolean) {
+    const held = cycle.held;
+    if (!held || cycle.released) {
+      return;
+    }
+
+    const reports = Object.fromEntries(cycle.reports);
+    const [largestGroup] = groupAgreeingSources(reports);
+
+    if (largestGroup && largestGroup.length >= CONSENSUS_CONFIG.QUORUM) {
+      console.log(`✅ Quorum reached for ${cycle.category} (${largestGroup.join(', ')}) - releasing notifications`);
+      this.release(cycle, reports[largestGroup[0]]);
+      return;
+    }
+
+    if (!timedOut) {
+      return;
+    }
+
+    if (cycle.reports.size <= 1 || groupAgreeingSources(reports).length === 1) {
+      console.log(`⌛ Consensus timeout for ${cycle.category} with no disagreement - releasing notifications`);
+      this.release(cycle, held.items);
+      return;
+    }
+
+    // Sources disagree and no quorum: only notify for items every source reported identically
+    const differing = new Set(findItemDifferences(reports).map(diff => diff.itemId));
+    const confirmed = held.items.filter(item => !differing.has(item.id));
+    console.warn(`⚠️ Consensus timeout for ${cycle.category} with disagreeing sources - notifying ${confirmed.length}/${held.items.length} confirmed items`);
+    this.release(cycle, confirmed);
+  }
+
+  private release(cycle: CycleReports, items: ReportedItem[]) {
+    const held = cycle.held!;
+    clearTimeout(held.timer);
+    cycle.held = null;
+    cycle.released = true;
+    try {
+      held.release(items);
+    } catch (error) {
+      console.error(`❌ Error releasing held ${cycle.category} notifications:`, error);
+    }
+  }
+
+  private getCycle(category: RestockCategory, cycleIndex: number): CycleReports {
+    const key = `${category}:${cycleIndex}`;
+    let cycle = this.cycles.get(key);
+    if (!cycle) {
+      cycle = { category, cycleIndex, reports: new Map(), held: null, released: false };
+      this.cycles.set(key, cycle);
+    }
+    return cycle;
+  }
+
+  private countComparison(source: StockSourceName, matches: boolean) {
+    const stats = this.sourceStats.get(source) || { agreements: 0, disagreements: 0 };
+    if (matches) {
+      stats.agreements++;
+    } else {
+      stats.disagreements++;
+    }
+    this.sourceStats.set(source, stats);
+  }
+
+  private prune(category: RestockCategory, currentCycle: number) {
+    for (const [key, cycle] of this.cycles) {
+      // Never drop a cycle that still holds notifications, its timer releases it
+      if (cycle.category === category && cycle.cycleIndex <= currentCycle - CONSENSUS_CONFIG.RETAINED_CYCLES && !cycle.held) {
+        this.cycles.delete(key);
+      }
+    }
+  }
+
+  private persist(cycle: CycleReports, outcome: ConsensusOutcome, source: StockSourceName, items: ReportedItem[], timestamp: number) {
+    const reportedAt = new Date(timestamp).toISOString();
+    const differences = findItemDifferences(Object.fromEntries(cycle.reports));
+
+    // Fire and forget - comparison bookkeeping must never block stock updates
+    database.initialize()
+      .then(() => database.upsertSourceReport({
+        category: cycle.category,
+        cycle_index: cycle.cycleIndex,
+        source,
+        items: JSON.stringify(items),
+        reported_at: reportedAt
+      }))
+      .then(() => database.upsertConsensusResult({
+        category: cycle.category,
+        cycle_index: cycle.cycleIndex,
+        status: outcome.status,
+        agreeing_sources: JSON.stringify(outcome.agreeingSources),
+        disagreeing_sources: JSON.stringify(outcome.disagreeingSources),
+        differences: JSON.stringify(differences),
+        updated_at: reportedAt
+      }))
+      .catch(error => {
+        console.error(`❌ Error recording source report for ${cycle.category}:`, error);
+      });
+  }
+}
+
+export const stockConsensus = new StockConsensus();
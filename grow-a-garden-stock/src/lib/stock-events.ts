@@ -0,0 +1,116 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { StockUpdateEvent } from './stock-manager-nextjs';
+
+// The stock manager and the Next.js app run as separate processes, so accepted
+// updates are shared through a small journal file next to stock-data.json.
+// The stock manager appends to it, API routes only read it.
+const EVENTS_PATH = path.resolve(process.cwd(), 'stock-events.json');
+const MAX_JOURNAL_EVENTS = 100; // Enough to resume a dropped connection, small enough to rewrite on every update
+
+interface StockEventJournalFile {
+  lastSequence: number;
+  events: StockUpdateEvent[];
+}
+
+class StockEventJournal {
+  private journal: StockEventJournalFile | null = null;
+
+  // Writer side (stock manager process)
+  publish(event: Omit<StockUpdateEvent, 'sequence'>): StockUpdateEvent {
+    const journal = this.load();
+    const published: StockUpdateEvent = { ...event, sequence: journal.lastSequence + 1 };
+
+    journal.lastSequence = published.sequence;
+    journal.events.push(published);
+    if (journal.events.length > MAX_JOURNAL_EVENTS) {
+      journal.events = journal.events.slice(-MAX_JOURNAL_EVENTS);
+    }
+
+    try {
+      // Atomic write so readers never see a half-written journal
+      const tempPath = `${EVENTS_PATH}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(journal), 'utf8');
+      fs.renameSync(tempPath, EVENTS_PATH);
+    } catch (error) {
+      console.error('❌ Error saving stock event journal:', error);
+    }
+
+    return published;
+  }
+
+  private load(): StockEventJournalFile {
+    if (!this.journal) {
+      this.journal = readJournal() || { lastSequence: 0, events: [] };
+    }
+    return this.journal;
+  }
+}
+
+function readJournal(): StockEventJournalFile | null {
+  try {
+    if (fs.existsSync(EVENTS_PATH)) {
+      return JSON.parse(fs.readFileSync(EVENTS_PATH, 'utf-8')) as StockEventJournalFile;
+    }
+  } catch (error) {
+    console.error('Error loading stock event journal:', error);
+  }
+  return null;
+}
+
+// Reader side (API routes)
+let cachedJournal: StockEventJournalFile | null = null;
+let cachedMtime = 0;
+
+function readJournalCached(): StockEventJournalFile {
+  try {
+    const mtime = fs.statSync(EVENTS_PATH).mtimeMs;
+    if (!cachedJournal || mtime !== cachedMtime) {
+      cachedJournal = readJournal();
+      cachedMtime = mtime;
+    }
+  } catch {
+    // Journal does not exist yet - no updates have been published
+    cachedJournal = null;
+    cachedMtime = 0;
+  }
+  return cachedJournal || { lastSequence: 0, events: [] };
+}
+
+export function getLatestStockEventSequence(): number {
+  return readJournalCached().lastSequence;
+}
+
+export function getStockEventsSince(sequence: number): StockUpdateEvent[] {
+  return readJournalCached().events.filter(event => event.sequence > sequence);
+}
+
+
+/**
+ * Resolve a client-supplied `since` value (an event sequence or a stockId) to
+ * an event sequence. Returns null when the journal no longer covers that point,
+ * in which case callers should fall back to a full response.
+ */
+export function resolveStockEventSequence(since: string): number | null {
+  const journal = readJournalCached();
+  const oldestSequence = journal.events.length > 0 ? journal.events[0].sequence : journal.lastSequence + 1;
+
+  if (/^\d+$/.test(since)) {
+    const sequence = parseInt(since);
+    // Anything between the oldest retained event and the latest one can be diffed
+    if (sequence >= oldestSequence - 1 && sequence <= journal.lastSequence) {
+      return sequence;
+    }
+    return null;
+  }
+
+  const event = journal.events.find(e => e.stockId === since);
+  return event ? event.sequence : null;
+}
+
+// Categories ('weather' and 'travellingMerchant' included) updated after the given sequence
+export function getChangedCategoriesSince(sequence: number): string[] {
+  return Array.from(new Set(getStockEventsSince(sequence).map(event => event.category)));
+}
+
+export const stockEventJournal = new StockEventJournal();
@@ -2,15 +2,22 @@
 // This version only provides the interfaces and basic data access
 // without importing the full stock manager that requires ts-node
 
+import type { StockSourceName } from './stock-source';
+
 export interface StockUpdateEvent {
   type: 'stock_update';
-  source: 'gagpro' | 'websocket' | 'cactus' | 'vulcan';
-  category: string;
+  sequence: number; // Monotonic event number, used as the SSE event ID
+  source: StockSourceName;
+  category: string; // A stock category, 'weather' or 'travellingMerchant'
   stockId: string;
-  data: AllStockData;
+  data: StockUpdateData;
   timestamp: string;
 }
 
+// Only the updated category, copied when the event was published so older
+// events keep describing the stock as it was then
+export type StockUpdateData = Partial<AllStockData> & { lastUpdated: string };
+
 export interface StockItem {
   id: string;
   name: string;
@@ -45,8 +52,12 @@ export interface AllStockData {
   eggs: StockCategory;
   cosmetics: StockCategory;
   events: StockCategory;
-  weather?: WeatherInfo;
+  weather?: {
+    activeWeather: WeatherInfo[];
+    lastUpdated: string;
+  };
   travellingMerchant?: {
+    merchantName?: string;
     items: TravellingMerchantItem[];
     lastUpdated: string;
     isActive: boolean;
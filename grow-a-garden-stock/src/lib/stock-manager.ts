@@ -1,10 +1,21 @@
 import * as fs from 'fs';
 import * as path from 'path';
-// import { jstudioWebSocket } from './jstudio-websocket.js'; // TEMPORARILY DISABLED
-import { growAGardenProWebSocket } from './growagardenpro-websocket.js';
-import { initializeDiscordListener as initializeCactusDiscord } from './discord-listener.js';
-import { initializeDiscordListener as initializeVulcanDiscord } from './discord-listener-vulcan.js';
-import { sendItemNotification, sendWeatherAlertNotification, sendCategoryNotification } from './notification-manager.js';
+import { sendRestockNotifications, sendWeatherAlertNotification, sendCategoryNotification, sendQuietHoursSummaries } from './notification-manager.js';
+import database from './database.js';
+import { REFRESH_INTERVALS, RESTOCK_CATEGORIES, calculateNextUpdate, getCycleIndex, getCycleStart } from './restock-schedule.js';
+import { stockEventJournal } from './stock-events.js';
+import type { StockUpdateEvent } from './stock-manager-nextjs.js';
+import { stockSourceRegistry } from './stock-source-registry.js';
+import { stockConsensus } from './stock-consensus.js';
+import { restockCycleTracker } from './restock-cycles.js';
+import { alertManager } from './alerts.js';
+import { sourceStatusTracker } from './source-status.js';
+import type { SourceStatus } from './source-status.js';
+import { itemCatalog } from './item-catalog.js';
+import { unknownItemTracker } from './unknown-items.js';
+import type { StockSource, StockSourceName } from './stock-source.js';
+import { systemClock } from './clock.js';
+import type { Clock } from './clock.js';
 import { randomUUID } from 'crypto';
 
 
@@ -63,7 +74,7 @@ export interface AllStockData {
 
 // Source tracking with better timing
 export interface SourceInfo {
-  name: 'gagpro' | 'websocket' | 'cactus' | 'vulcan';
+  name: StockSourceName;
   lastUpdate: string;
   isOnline: boolean;
   lastDataHash: string;
@@ -71,87 +82,7 @@ export interface SourceInfo {
   lastMessageReceived: string; // Track when we last received any message
 }
 
-// Seed rarity mapping for notification prioritization
-const SEED_RARITY_MAP: Record<string, string> = {
-  // Common
-  "Carrot": "Common",
-  "Strawberry": "Common",
-  // Uncommon
-  "Blueberry": "Uncommon",
-  "Orange Tulip": "Uncommon",
-  "Buttercup": "Uncommon",
-  // Rare
-  "Tomato": "Rare",
-  "Corn": "Rare",
-  "Daffodil": "Rare",
-  // Legendary
-  "Watermelon": "Legendary",
-  "Pumpkin": "Legendary",
-  "Apple": "Legendary",
-  "Bamboo": "Legendary",
-  "Broccoli": "Legendary",
-  // Mythical
-  "Coconut": "Mythical",
-  "Cactus": "Mythical",
-  "Dragon Fruit": "Mythical",
-  "Mango": "Mythical",
-  "Potato": "Mythical",
-  // Divine
-  "Grape": "Divine",
-  "Mushroom": "Divine",
-  "Pepper": "Divine",
-  "Cacao": "Divine",
-  "Brussels Sprout": "Divine",
-  "Sunflower": "Divine",
-  // Prismatic
-  "Beanstalk": "Prismatic",
-  "Ember Lily": "Prismatic",
-  "Sugar Apple": "Prismatic",
-  "Burning Bud": "Prismatic",
-  "Giant Pinecone": "Prismatic",
-  "Elder Strawberry": "Prismatic",
-  "Romanesco": "Prismatic",
-  "Cocomango": "Prismatic",
-  "Crimson Thorn": "Prismatic",
-  "Great Pumpkin": "Prismatic",
-  "Trinity Fruit": "Prismatic",
-  "Zebrazinkle": "Prismatic",
-  "Octobloom": "Prismatic"
-};
-
-// Rarity priority order (lower number = higher priority)
-const RARITY_PRIORITY: Record<string, number> = {
-  "Prismatic": 0,
-  "Divine": 1,
-  "Mythical": 2,
-  "Legendary": 3,
-  "Rare": 4,
-  "Uncommon": 5,
-  "Common": 6
-};
-
-// Helper function to get rarity with case-insensitive matching
-function getSeedRarity(seedName: string): string {
-  // Try exact match first (most common case)
-  if (SEED_RARITY_MAP[seedName]) {
-    return SEED_RARITY_MAP[seedName];
-  }
-  
-  // Fallback to case-insensitive match
-  const normalizedName = seedName.trim();
-  const matchingKey = Object.keys(SEED_RARITY_MAP).find(
-    key => key.toLowerCase() === normalizedName.toLowerCase()
-  );
-  
-  if (matchingKey) {
-    return SEED_RARITY_MAP[matchingKey];
-  }
-  
-  // Default to Common if not found
-  return "Common";
-}
-
-class StockManager {
+export class StockManager {
   private stockData: AllStockData;
   private stockDataPath: string;
   private sources: Map<string, SourceInfo> = new Map();
@@ -173,6 +104,9 @@ class StockManager {
   private lastItemUpdateTimestamp: { [key: string]: string } = {}; // Track when items were last updated (by category)
   private readonly MIN_UPDATE_INTERVAL = 2000; // 2 seconds between updates for same category
   
+  // Subscribers notified after every accepted update (live streams)
+  private stockUpdateListeners: Array<(event: StockUpdateEvent) => void> = [];
+  
   // Background notification queue to prevent blocking
   private notificationQueue: Array<() => Promise<void>> = [];
   private isProcessingNotifications = false;
@@ -183,25 +117,13 @@ class StockManager {
   private lastSaveLog: number | null = null;
   
   // Timing configuration - much more reasonable timeouts
-  private readonly REFRESH_INTERVALS = {
-    seeds: 5,
-    gear: 5,
-    eggs: 30,
-    cosmetics: 240,
-    events: 30
-  };
+  private readonly REFRESH_INTERVALS = REFRESH_INTERVALS;
   
-  // Source priority and timing thresholds - much more reasonable
-  // Note: For weather updates, Discord sources (Cactus primary, Vulcan backup) are preferred
-  // WebSocket weather updates are ignored due to unreliable data structure
-  private readonly SOURCE_PRIORITY = {
-    gagpro: { priority: 0, maxDelayMinutes: 2, minUpdateIntervalMinutes: 1 }, // Primary: GrowAGardenPro WebSocket
-    websocket: { priority: 1, maxDelayMinutes: 2, minUpdateIntervalMinutes: 1 }, // Backup 1: JStudio WebSocket
-    cactus: { priority: 2, maxDelayMinutes: 2, minUpdateIntervalMinutes: 2 }, // Backup 2: Cactus Discord
-    vulcan: { priority: 3, maxDelayMinutes: 2, minUpdateIntervalMinutes: 5 } // Backup 3: Vulcan Discord
-  };
+  // Enabled sources with their priority and timing thresholds, loaded from stock-sources.json
+  private readonly sourceRegistry = stockSourceRegistry;
 
-  constructor() {
+  // All timing decisions read the time from here, see setClock
+  constructor(private clock: Clock = systemClock) {
     this.stockDataPath = path.resolve(process.cwd(), 'stock-data.json');
     this.duplicateHistoryPath = path.resolve(process.cwd(), 'duplicate-history.json');
     this.stockData = this.loadOrCreateStockData();
@@ -236,7 +158,7 @@ class StockManager {
   }
 
   private ensureStockDataStructure(data: Partial<AllStockData>): AllStockData {
-    const now = new Date().toISOString();
+    const now = this.clock.date().toISOString();
     
     // Handle weather data conversion from old format to new format
     let weatherData: MultipleWeatherInfo | undefined;
@@ -271,7 +193,7 @@ class StockManager {
   }
 
   private createEmptyCategory(category: string): StockCategory {
-    const now = new Date().toISOString();
+    const now = this.clock.date().toISOString();
     return {
       items: [],
       lastUpdated: now,
@@ -281,7 +203,7 @@ class StockManager {
   }
 
   private createEmptyStockData(): AllStockData {
-    const now = new Date().toISOString();
+    const now = this.clock.date().toISOString();
     return {
       lastUpdated: now,
       seeds: this.createEmptyCategory('seeds'),
@@ -293,41 +215,16 @@ class StockManager {
   }
 
   private initializeSources() {
-    this.sources.set('gagpro', {
-      name: 'gagpro',
-      lastUpdate: new Date(0).toISOString(),
-      isOnline: false,
-      lastDataHash: '',
-      lastSuccessfulUpdate: new Date(0).toISOString(),
-      lastMessageReceived: new Date(0).toISOString()
-    });
-    
-    this.sources.set('websocket', {
-      name: 'websocket',
-      lastUpdate: new Date(0).toISOString(),
-      isOnline: false,
-      lastDataHash: '',
-      lastSuccessfulUpdate: new Date(0).toISOString(),
-      lastMessageReceived: new Date(0).toISOString()
-    });
-    
-    this.sources.set('cactus', {
-      name: 'cactus',
-      lastUpdate: new Date(0).toISOString(),
-      isOnline: false,
-      lastDataHash: '',
-      lastSuccessfulUpdate: new Date(0).toISOString(),
-      lastMessageReceived: new Date(0).toISOString()
-    });
-    
-    this.sources.set('vulcan', {
-      name: 'vulcan',
-      lastUpdate: new Date(0).toISOString(),
-      isOnline: false,
-      lastDataHash: '',
-      lastSuccessfulUpdate: new Date(0).toISOString(),
-      lastMessageReceived: new Date(0).toISOString()
-    });
+    for (const source of this.sourceRegistry.getAll()) {
+      this.sources.set(source.name, {
+        name: source.name,
+        lastUpdate: new Date(0).toISOString(),
+        isOnline: false,
+        lastDataHash: '',
+        lastSuccessfulUpdate: new Date(0).toISOString(),
+        lastMessageReceived: new Date(0).toISOString()
+      });
+    }
   }
 
   /**
@@ -335,7 +232,7 @@ class StockManager {
    * This prevents spam notifications for "daily seeds" that refresh frequently
    */
   private shouldFilterDuplicateItem(itemId: string, quantity: number): boolean {
-    const now = Date.now();
+    const now = this.clock.now();
     const itemKey = `${itemId}`;
     
     // Get or create appearance history for this item
@@ -379,7 +276,7 @@ class StockManager {
         const parsedData = JSON.parse(data);
         
         // Check if daily seeds have changed (new day)
-        const today = new Date().toDateString();
+        const today = this.clock.date().toDateString();
         if (parsedData.lastDailySeedReset !== today) {
           console.log('🌅 New day detected - clearing duplicate history for fresh daily seeds');
           this.itemAppearanceHistory.clear();
@@ -395,12 +292,12 @@ class StockManager {
         console.log(`📚 Loaded duplicate history for ${this.itemAppearanceHistory.size} items`);
       } else {
         console.log('📚 No duplicate history file found - starting fresh');
-        this.lastDailySeedReset = new Date().toDateString();
+        this.lastDailySeedReset = this.clock.date().toDateString();
       }
     } catch (error) {
       console.error('❌ Error loading duplicate history:', error);
       this.itemAppearanceHistory.clear();
-      this.lastDailySeedReset = new Date().toDateString();
+      this.lastDailySeedReset = this.clock.date().toDateString();
     }
   }
 
@@ -412,7 +309,7 @@ class StockManager {
       const data = {
         lastDailySeedReset: this.lastDailySeedReset,
         history: Array.from(this.itemAppearanceHistory.entries()),
-        lastSaved: new Date().toISOString()
+        lastSaved: this.clock.date().toISOString()
       };
       
       // Atomic write to prevent corruption
@@ -429,7 +326,7 @@ class StockManager {
    * Clean up old appearance history to prevent memory leaks
    */
   private cleanupAppearanceHistory(): void {
-    const now = Date.now();
+    const now = this.clock.now();
     const cutoffTime = now - this.DUPLICATE_DETECTION_WINDOW;
     
     for (const [itemKey, history] of this.itemAppearanceHistory.entries()) {
@@ -449,36 +346,39 @@ class StockManager {
   public async start() {
     console.log('🚀 Starting Stock Manager with multi-source coordination...');
     
-    // Start primary WebSocket listener (GrowAGardenPro)
-    console.log('📡 Starting GrowAGardenPro WebSocket listener (Primary)...');
-    growAGardenProWebSocket.start();
-    
-    // TEMPORARILY DISABLED: Start backup WebSocket listener (JStudio)
-    // console.log('📡 Starting JStudio WebSocket listener (Backup)...');
-    // jstudioWebSocket.start();
-    
-    // Start Discord listeners
-    console.log('🌵 Starting Cactus Discord listener...');
-    initializeCactusDiscord();
-    
-    console.log('🔥 Starting Vulcan Discord listener...');
-    initializeVulcanDiscord();
+    // Start every enabled source in priority order
+    for (const source of this.sourceRegistry.getAll()) {
+      console.log(`📡 Starting ${source.label} (priority ${source.priority})...`);
+      try {
+        await source.start();
+      } catch (error) {
+        console.error(`❌ Failed to start ${source.label}:`, error);
+      }
+    }
     
     // Set up periodic checks
     setInterval(() => {
       this.validateDataConsistency();
       this.checkAndClearExpiredTravellingMerchant();
       this.cleanupAppearanceHistory(); // Clean up duplicate detection history
+      sendQuietHoursSummaries(); // Deliver alerts held back during devices' quiet hours
     }, 60000); // Check every 60 seconds instead of 30
     
+    // Share source health with the Next.js process (/api/sources)
+    this.publishSourceStatus();
+    setInterval(() => this.publishSourceStatus(), 10000);
+    
+    // Flag restock cycles that ended without any accepted data, and alert on overdue categories
+    this.checkRestockHealth();
+    setInterval(() => this.checkRestockHealth(), 30000);
+    
     console.log('✅ Stock Manager started successfully!');
     console.log('📊 Multi-source coordination is now active');
     console.log('🌐 API endpoint: http://103.45.246.244:3000/api/stock');
     console.log('💡 The Stock Manager will automatically:');
-    console.log('   • Prioritize GrowAGardenPro WebSocket as primary source');
-    // console.log('   • Use JStudio WebSocket as backup 1'); // TEMPORARILY DISABLED
-    console.log('   • Use Cactus Discord as backup 1');
-    console.log('   • Use Vulcan Discord as backup 2');
+    this.sourceRegistry.getAll().forEach((source, index) => {
+      console.log(`   • Use ${source.label} as ${index === 0 ? 'primary source' : `backup ${index}`}`);
+    });
     console.log('   • Validate data consistency between sources');
     console.log('   • Prevent duplicate notifications');
     console.log('   • Handle travelling merchant updates');
@@ -491,14 +391,20 @@ class StockManager {
   }
 
   public async updateStockData(
-    source: 'gagpro' | 'websocket' | 'cactus' | 'vulcan',
+    source: StockSourceName,
     category: keyof Pick<AllStockData, 'seeds' | 'gear' | 'eggs' | 'cosmetics' | 'events'>,
     items: StockItem[],
     weather?: WeatherInfo,
     travellingMerchant?: TravellingMerchantItem[],
     merchantName?: string
   ) {
-    const now = Date.now();
+    // Sources name items differently, from here on every item uses its catalog id and name
+    items = itemCatalog.canonicalizeItems(items);
+    if (travellingMerchant) {
+      travellingMerchant = itemCatalog.canonicalizeItems(travellingMerchant);
+    }
+
+    const now = this.clock.now();
     const updateKey = `${source}-${category}`;
     
     // Check if this is a weather-only update (empty items array with weather data)
@@ -513,6 +419,7 @@ class StockManager {
       // Weather/merchant-only updates: use general timer, but don't block item updates
     if (this.lastUpdateTime[updateKey] && (now - this.lastUpdateTime[updateKey]) < this.MIN_UPDATE_INTERVAL) {
         console.log(`⏭️ Rate limited: ${source} ${isWeatherUpdate ? 'weather' : 'merchant'}-only update for ${category} - too soon since last update`);
+        sourceStatusTracker.recordDecision(source, false);
       return;
     }
     this.lastUpdateTime[updateKey] = now;
@@ -521,6 +428,7 @@ class StockManager {
       const itemUpdateKey = `${source}-${category}-items`;
       if (this.lastItemUpdateTime[itemUpdateKey] && (now - this.lastItemUpdateTime[itemUpdateKey]) < this.MIN_UPDATE_INTERVAL) {
         console.log(`⏭️ Rate limited: ${source} update for ${category} - too soon since last item update`);
+        sourceStatusTracker.recordDecision(source, false);
         return;
       }
       this.lastItemUpdateTime[itemUpdateKey] = now;
@@ -528,7 +436,7 @@ class StockManager {
       this.lastUpdateTime[updateKey] = now;
     }
     
-    const nowISO = new Date().toISOString();
+    const nowISO = this.clock.date().toISOString();
     const sourceInfo = this.sources.get(source);
     
     if (!sourceInfo) {
@@ -548,9 +456,26 @@ class StockManager {
       console.log(`🛒 Processing travelling merchant update from ${source}`);
     }
     
+    // Compare every item report with the other sources, even ones we end up skipping
+    if (!isWeatherUpdate && !isTravellingMerchantUpdate) {
+      stockConsensus.recordReport(source, category, items, now);
+      unknownItemTracker.recordReport(source, category, items, now);
+      const interval = this.REFRESH_INTERVALS[category];
+      sourceStatusTracker.recordRestockReport(source, category, getCycleStart(getCycleIndex(now, interval), interval), now);
+
+      // The same restock reported again (e.g. a late Discord post) is not a new update
+      const { cycle, duplicate } = restockCycleTracker.attribute(source, category, items, now);
+      if (duplicate) {
+        console.log(`🔁 ${source} ${category} report matches restock cycle ${cycle.cycleIndex} already delivered by ${cycle.deliveredBy} - skipping`);
+        sourceStatusTracker.recordDecision(source, false);
+        return;
+      }
+    }
+    
     // Check if we should accept this update based on source priority
     if (!this.shouldAcceptUpdate(source, category, isWeatherUpdate, travellingMerchant)) {
       console.log(`⏭️ Skipping ${source} update for ${category} - higher priority source has recent data`);
+      sourceStatusTracker.recordDecision(source, false);
       return;
     }
 
@@ -564,6 +489,7 @@ class StockManager {
     // Check if this is newer data than what we have
     if (!this.shouldUpdateData(source, category, dataHash)) {
       console.log(`⏭️ Skipping ${source} update for ${category} - data not newer`);
+      sourceStatusTracker.recordDecision(source, false);
       return;
     }
 
@@ -575,6 +501,7 @@ class StockManager {
     // Validate that critical categories are not empty (but allow weather-only updates and travelling merchant updates)
     if ((category === 'seeds' || category === 'gear' || category === 'eggs') && items.length === 0 && !weather && !travellingMerchant) {
       console.log(`⚠️ Rejecting empty ${category} update from ${source} - shop should never be completely empty`);
+      sourceStatusTracker.recordDecision(source, false);
       return;
     }
     
@@ -615,6 +542,10 @@ class StockManager {
         
         // Track when items were last updated (not just timestamp updates)
         this.lastItemUpdateTimestamp[category] = nowISO;
+        
+        // Archive the accepted snapshot so past restocks can be queried later
+        this.recordStockHistory(stockId, category, source, itemsWithStockId, nowISO);
+        restockCycleTracker.recordAccepted(source, category, items, now);
       }
     }
     
@@ -649,7 +580,7 @@ class StockManager {
       // Clean up expired weather events and their notification tracking
       this.stockData.weather.activeWeather = this.stockData.weather.activeWeather.filter(w => {
         const endTime = new Date(w.endsAt);
-        const now = new Date();
+        const now = this.clock.date();
         const isExpired = endTime.getTime() <= now.getTime();
         
         if (isExpired) {
@@ -694,12 +625,24 @@ class StockManager {
     
     // Save to file
     this.saveStockData();
+    sourceStatusTracker.recordDecision(source, true, now);
+    
+    // Publish the accepted change to live subscribers
+    const eventCategory = isWeatherUpdate ? 'weather' : isTravellingMerchantUpdate ? 'travellingMerchant' : category;
+    this.publishStockUpdate(source, eventCategory, stockId, nowISO);
     
     // Check for expired travelling merchant data
     this.checkAndClearExpiredTravellingMerchant();
     
     // Send notifications (only for new/changed items)
-    this.sendNotifications(stockId, category, items, weather, travellingMerchant, merchantName);
+    // Item notifications may be held until enough sources confirm the restock
+    const heldForConsensus = !isWeatherUpdate && !isTravellingMerchantUpdate &&
+      stockConsensus.holdNotifications(category, items, (confirmedItems) => {
+        this.sendNotifications(stockId, category, confirmedItems);
+      }, now);
+    if (!heldForConsensus) {
+      this.sendNotifications(stockId, category, items, weather, travellingMerchant, merchantName);
+    }
     
     // Send notifications for new weather events only (if this was a weather update)
     // Only send weather notifications from the highest priority source to prevent duplicates
@@ -739,8 +682,12 @@ class StockManager {
   }
 
   private shouldAcceptUpdate(source: string, category: string, isWeatherUpdate: boolean = false, travellingMerchant?: TravellingMerchantItem[]): boolean {
-    const sourceConfig = this.SOURCE_PRIORITY[source as keyof typeof this.SOURCE_PRIORITY];
-    const now = Date.now();
+    const sourceConfig = this.sourceRegistry.get(source);
+    if (!sourceConfig) {
+      console.log(`🔍 Rejecting ${source} update for ${category} - source is not enabled`);
+      return false;
+    }
+    const now = this.clock.now();
     
     console.log(`🔍 Checking if should accept ${source} update for ${category}`);
     console.log(`🔍 Is weather update: ${isWeatherUpdate}`);
@@ -773,7 +720,7 @@ class StockManager {
     const currentLastUpdated = (currentCategory as StockCategory).lastUpdated;
     const currentTime = new Date(currentLastUpdated).getTime();
     const timeSinceLastUpdate = now - currentTime;
-    const minUpdateInterval = sourceConfig.minUpdateIntervalMinutes * 60 * 1000;
+    const minUpdateInterval = sourceConfig.thresholds.minUpdateIntervalMinutes * 60 * 1000;
     
     console.log(`🔍 Time since last update: ${timeSinceLastUpdate}ms, min interval: ${minUpdateInterval}ms`);
     
@@ -813,12 +760,12 @@ class StockManager {
     
     // Check if a higher priority source has updated recently
     for (const [sourceName, sourceInfo] of this.sources) {
-      const sourcePriority = this.SOURCE_PRIORITY[sourceName as keyof typeof this.SOURCE_PRIORITY];
+      const sourcePriority = this.sourceRegistry.get(sourceName);
       // Check if this source has higher priority (lower number) than the current source
-      if (sourcePriority.priority < sourceConfig.priority) {
+      if (sourcePriority && sourcePriority.priority < sourceConfig.priority) {
         const lastUpdate = new Date(sourceInfo.lastSuccessfulUpdate).getTime();
         const timeSinceHigherPriorityUpdate = now - lastUpdate;
-        const higherPriorityThreshold = sourcePriority.maxDelayMinutes * 60 * 1000;
+        const higherPriorityThreshold = sourcePriority.thresholds.maxDelayMinutes * 60 * 1000;
         
         console.log(`🔍 Checking ${sourceName} (priority ${sourcePriority.priority}) vs ${source} (priority ${sourceConfig.priority})`);
         console.log(`🔍 Time since ${sourceName} update: ${timeSinceHigherPriorityUpdate}ms, threshold: ${higherPriorityThreshold}ms`);
@@ -873,7 +820,7 @@ class StockManager {
     if (currentCategory && typeof currentCategory === 'object' && 'lastUpdated' in currentCategory) {
       const currentLastUpdated = (currentCategory as StockCategory).lastUpdated;
       const currentTime = new Date(currentLastUpdated).getTime();
-      const now = Date.now();
+      const now = this.clock.now();
       const timeSinceLastUpdate = now - currentTime;
       const minInterval = 60000; // 1 minute minimum interval
       
@@ -919,7 +866,7 @@ class StockManager {
 
   private async sendWeatherNotification(weather: WeatherInfo) {
     // Calculate time remaining
-    const now = new Date();
+    const now = this.clock.date();
     const endTime = new Date(weather.endsAt);
     const timeRemainingMs = endTime.getTime() - now.getTime();
     const timeRemainingSeconds = Math.max(0, Math.floor(timeRemainingMs / 1000));
@@ -993,57 +940,20 @@ class StockManager {
       // Send notifications based on category type
       switch (category) {
         case 'seeds':
-          // Sort seeds by rarity priority (Prismatic first, then Divine, etc.)
-          const sortedSeeds = [...items].sort((a, b) => {
-            const rarityA = getSeedRarity(a.name);
-            const rarityB = getSeedRarity(b.name);
-            const priorityA = RARITY_PRIORITY[rarityA] ?? 999;
-            const priorityB = RARITY_PRIORITY[rarityB] ?? 999;
-            return priorityA - priorityB; // Lower priority number = higher rarity = sent first
-          });
-          
-          console.log(`🔔 Processing ${category} notifications for ${sortedSeeds.length} items (sorted by rarity)`);
-          console.log(`🔔 Seed notification order: ${sortedSeeds.map(s => `${s.name} (${getSeedRarity(s.name)})`).join(', ')}`);
-          
-          // Per-item notifications for seeds (sorted by rarity)
-          // Send seed notifications sequentially by rarity priority (highest rarity first)
-          // This ensures Prismatic/Divine seeds are sent before Common seeds
-          for (const item of sortedSeeds) {
-            const shouldNotify = this.shouldNotifyForItem();
-            const itemRarity = getSeedRarity(item.name);
-            console.log(`🔔 Should notify for ${item.name} (${itemRarity}): ${shouldNotify}`);
-            
-            // DUPLICATE FILTERING DISABLED - Commented out for easy reactivation if needed
-            // Only apply duplicate filtering to seeds (where daily seeds cause spam)
-            // if (category === 'seeds') {
-            //   console.log(`🔍 Checking duplicate filter for ${item.name} (${item.id}, quantity: ${item.quantity})`);
-            //   const shouldFilterDuplicate = this.shouldFilterDuplicateItem(item.id, item.quantity);
-            //   console.log(`🔍 Duplicate filter result for ${item.name}: ${shouldFilterDuplicate}`);
-            //   if (shouldFilterDuplicate) {
-            //     console.log(`🚫 Skipping notification for ${item.name} due to duplicate filtering`);
-            //     continue;
-            //   }
-            // }
-            
-            if (shouldNotify) {
-              // Send notification and wait for it to complete before moving to next seed
-              // This ensures higher rarity seeds are sent first
-              await sendItemNotification(item.name, item.quantity, category);
-            }
-          }
-          break;
-          
         case 'gear':
         case 'eggs':
-          console.log(`🔔 Processing ${category} notifications for ${items.length} items`);
-          // Per-item notifications for these categories
-          for (const item of items) {
-            const shouldNotify = this.shouldNotifyForItem();
-            console.log(`🔔 Should notify for ${item.name}: ${shouldNotify}`);
-            
-            if (shouldNotify) {
-              await sendItemNotification(item.name, item.quantity, category);
-            }
+        case 'events':
+          // Sort by rarity from the item catalog (Prismatic first, then Divine, etc.)
+          const sortedItems = itemCatalog.sortByRarity(items);
+          const describeItem = (item: StockItem) => `${item.name} (${itemCatalog.getItemRarity(item) ?? 'unknown rarity'})`;
+          
+          console.log(`🔔 Processing ${category} notifications for ${sortedItems.length} items (sorted by rarity)`);
+          console.log(`🔔 ${category} notification order: ${sortedItems.map(describeItem).join(', ')}`);
+          
+          // One planned fan-out for per-item and digest devices. Requests for higher rarity
+          // items are sent first, so Prismatic/Divine alerts go out before Common ones.
+          if (sortedItems.length > 0) {
+            await sendRestockNotifications(category, sortedItems);
           }
           break;
           
@@ -1054,20 +964,6 @@ class StockManager {
           }
           break;
           
-        case 'events':
-          // Per-item notifications for events (changed from category-level)
-          console.log(`🔔 Processing ${category} notifications for ${items.length} items`);
-          for (const item of items) {
-            const shouldNotify = this.shouldNotifyForItem();
-            console.log(`🔔 Should notify for ${item.name}: ${shouldNotify}`);
-            
-            // Events don't need duplicate filtering (they're not daily seeds)
-            if (shouldNotify) {
-              await sendItemNotification(item.name, item.quantity, category);
-            }
-          }
-          break;
-          
         default:
           console.log(`⚠️ Unknown category for notifications: ${category}`);
           break;
@@ -1106,14 +1002,9 @@ class StockManager {
     }
   }
 
-  private shouldNotifyForItem(): boolean {
-    // Always send notifications for stock updates (removed quantity change and time delay checks)
-    return true;
-  }
-
   private validateDataConsistency() {
     // Only log validation every 5 minutes to reduce spam
-    const now = Date.now();
+    const now = this.clock.now();
     if (!this.lastValidationLog || (now - this.lastValidationLog) > 300000) { // 5 minutes
       console.log('🔍 Validating data consistency between sources...');
       this.lastValidationLog = now;
@@ -1125,7 +1016,7 @@ class StockManager {
     for (const source of sources) {
       const lastMessageTime = new Date(source.lastMessageReceived).getTime();
       const timeDiff = now - lastMessageTime;
-      const maxDelay = this.SOURCE_PRIORITY[source.name].maxDelayMinutes * 60 * 1000;
+      const maxDelay = this.getSourceThresholds(source.name).maxDelayMinutes * 60 * 1000;
       
       if (timeDiff > maxDelay) {
         source.isOnline = false;
@@ -1145,6 +1036,35 @@ class StockManager {
       console.log(`📊 Online sources: ${onlineSources.map(s => s.name).join(', ')} (${onlineCount}/${sources.length})`);
       this.lastOnlineCount = onlineCount;
     }
+    
+    // A category stops updating once every source that reports it is offline,
+    // even while sources for other categories are still online
+    for (const category of RESTOCK_CATEGORIES) {
+      const feeders = sources.filter(s => this.sourceRegistry.get(s.name)?.categories.includes(category));
+      if (feeders.length === 0) continue;
+
+      const key = `sources_offline:${category}`;
+      const onlineFeeders = feeders.filter(s => s.isOnline);
+      if (onlineFeeders.length === 0) {
+        const lastMessages = feeders.map(s => `${s.name}: ${s.lastMessageReceived}`).join(', ');
+        alertManager.raise(key, 'critical', `All ${category} sources offline`,
+          `No ${category} updates. Last messages - ${lastMessages}`, now);
+      } else {
+        alertManager.resolve(key, `${category} sources online again: ${onlineFeeders.map(s => s.name).join(', ')}`, now);
+      }
+    }
+  }
+
+  private checkRestockHealth() {
+    const now = this.clock.now();
+    restockCycleTracker.checkForEmptyCycles(now);
+    alertManager.checkMissedRestocks({
+      seeds: this.stockData.seeds,
+      gear: this.stockData.gear,
+      eggs: this.stockData.eggs,
+      cosmetics: this.stockData.cosmetics,
+      events: this.stockData.events
+    }, now);
   }
 
   private updateSourceStatus(source: string, isOnline: boolean) {
@@ -1152,23 +1072,34 @@ class StockManager {
     if (sourceInfo) {
       sourceInfo.isOnline = isOnline;
       if (isOnline) {
-        sourceInfo.lastUpdate = new Date().toISOString();
+        sourceInfo.lastUpdate = this.clock.date().toISOString();
       }
     }
   }
 
   private calculateNextUpdate(intervalMinutes: number): string {
-    const now = new Date();
-    const minutesSinceEpoch = Math.floor(now.getTime() / (1000 * 60));
-    const intervalsSinceEpoch = Math.floor(minutesSinceEpoch / intervalMinutes);
-    const nextScheduledMinute = (intervalsSinceEpoch + 1) * intervalMinutes;
-    return new Date(nextScheduledMinute * 60 * 1000).toISOString();
+    return calculateNextUpdate(intervalMinutes, this.clock.date());
+  }
+
+  private recordStockHistory(stockId: string, category: string, source: string, items: StockItem[], recordedAt: string) {
+    // Fire and forget - a history write failure must never block stock updates
+    database.initialize()
+      .then(() => database.insertStockHistory({
+        stock_id: stockId,
+        category,
+        source,
+        items: JSON.stringify(items.map(item => ({ id: item.id, name: item.name, quantity: item.quantity }))),
+        recorded_at: recordedAt
+      }))
+      .catch(error => {
+        console.error(`❌ Error recording stock history for ${category}:`, error);
+      });
   }
 
   private saveStockData() {
     try {
       // Only log saves every 30 seconds to reduce spam
-      const now = Date.now();
+      const now = this.clock.now();
       if (!this.lastSaveLog || (now - this.lastSaveLog) > 30000) { // 30 seconds
         console.log('💾 Saving stock data...');
         this.lastSaveLog = now;
@@ -1189,6 +1120,48 @@ class StockManager {
     }
   }
 
+  /**
+   * Replace the time source, e.g. with a FakeClock when replaying recorded
+   * messages. Affects rate limiting, expiry checks and next update times.
+   */
+  public setClock(clock: Clock) {
+    this.clock = clock;
+  }
+
+  /**
+   * Subscribe to accepted stock, weather and merchant updates.
+   * Returns a function that removes the listener.
+   */
+  public onStockUpdate(listener: (event: StockUpdateEvent) => void): () => void {
+    this.stockUpdateListeners.push(listener);
+    return () => {
+      this.stockUpdateListeners = this.stockUpdateListeners.filter(l => l !== listener);
+    };
+  }
+
+  private publishStockUpdate(source: StockUpdateEvent['source'], category: string, stockId: string, timestamp: string) {
+    // The journal assigns the sequence number and shares the event with the Next.js process
+    const event = stockEventJournal.publish({
+      type: 'stock_update',
+      source,
+      category,
+      stockId,
+      data: {
+        lastUpdated: this.stockData.lastUpdated,
+        [category]: structuredClone(this.stockData[category as keyof AllStockData])
+      },
+      timestamp
+    });
+    
+    for (const listener of this.stockUpdateListeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('❌ Error in stock update listener:', error);
+      }
+    }
+  }
+
   public getStockData(): AllStockData {
     return this.stockData;
   }
@@ -1197,28 +1170,74 @@ class StockManager {
     return Array.from(this.sources.values());
   }
 
+  public getSources(): StockSource[] {
+    return this.sourceRegistry.getAll();
+  }
+
+  private getSourceThresholds(source: StockSourceName) {
+    const sourceConfig = this.sourceRegistry.get(source);
+    if (!sourceConfig) {
+      throw new Error(`Unknown stock source: ${source}`);
+    }
+    return sourceConfig.thresholds;
+  }
+
   public stop() {
     console.log('🛑 Stopping Stock Manager...');
-    growAGardenProWebSocket.stop();
-    // jstudioWebSocket.stop(); // TEMPORARILY DISABLED
-    // Note: Discord listeners don't have explicit stop methods, they'll be cleaned up by process exit
+    for (const source of this.sourceRegistry.getAll()) {
+      source.stop().catch(error => {
+        console.error(`❌ Error stopping ${source.label}:`, error);
+      });
+    }
   }
 
-  public updateSourceActivity(source: 'gagpro' | 'websocket' | 'cactus' | 'vulcan') {
+  public updateSourceActivity(source: StockSourceName) {
     const sourceInfo = this.sources.get(source);
     if (sourceInfo) {
-      sourceInfo.lastMessageReceived = new Date().toISOString();
+      sourceInfo.lastMessageReceived = this.clock.date().toISOString();
       sourceInfo.isOnline = true;
+      sourceStatusTracker.recordMessage(source, this.clock.now());
     }
   }
 
+  private publishSourceStatus() {
+    const consensusStats = stockConsensus.getSourceStats();
+    const statuses: SourceStatus[] = this.sourceRegistry.getAll().map(source => {
+      const info = this.sources.get(source.name);
+      const metrics = sourceStatusTracker.getMetrics(source.name, this.clock.now());
+      const connection = source.getConnectionStats();
+      const neverHeardFrom = !info || new Date(info.lastMessageReceived).getTime() === 0;
+      return {
+        name: source.name,
+        label: source.label,
+        priority: source.priority,
+        online: info?.isOnline ?? false,
+        connected: connection ? connection.connected : null,
+        lastMessageReceived: neverHeardFrom ? null : info.lastMessageReceived,
+        lastAcceptedUpdate: metrics.lastAcceptedUpdate,
+        messagesPerMinute: metrics.messagesPerMinute,
+        acceptedUpdates: metrics.acceptedUpdates,
+        rejectedUpdates: metrics.rejectedUpdates,
+        reconnectAttempts: connection ? connection.reconnectAttempts : null,
+        totalReconnects: connection ? connection.totalReconnects : null,
+        restockDelay: {
+          lastSeconds: metrics.lastDelaySeconds,
+          averageSeconds: metrics.averageDelaySeconds,
+          samples: metrics.delaySamples
+        },
+        consensus: consensusStats[source.name] || { agreements: 0, disagreements: 0 }
+      };
+    });
+    sourceStatusTracker.write(statuses);
+  }
+
   private isHighestPrioritySource(source: string): boolean {
-    const sourceConfig = this.SOURCE_PRIORITY[source as keyof typeof this.SOURCE_PRIORITY];
+    const sourceConfig = this.sourceRegistry.get(source);
     if (!sourceConfig) return false;
     
     // Check if this source has the highest priority (lowest priority number)
     for (const [sourceName] of this.sources) {
-      const otherSourceConfig = this.SOURCE_PRIORITY[sourceName as keyof typeof this.SOURCE_PRIORITY];
+      const otherSourceConfig = this.sourceRegistry.get(sourceName);
       if (otherSourceConfig && otherSourceConfig.priority < sourceConfig.priority) {
         // Found a source with higher priority (lower number)
         return false;
@@ -1233,7 +1252,7 @@ class StockManager {
       return;
     }
 
-    const now = Date.now() / 1000; // Current time in seconds
+    const now = this.clock.now() / 1000; // Current time in seconds
     const merchant = this.stockData.travellingMerchant;
     
     // Check if any items have end dates that have passed
@@ -1253,7 +1272,7 @@ class StockManager {
       this.stockData.travellingMerchant = {
         merchantName: 'No Merchant',
         items: [],
-        lastUpdated: new Date().toISOString(),
+        lastUpdated: this.clock.date().toISOString(),
         isActive: false
       };
       this.saveStockData();
@@ -0,0 +1,58 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { RestockCategory } from './restock-schedule';
+import type { StockSourceConfig } from './stock-source';
+
+// Kept in sync with RESTOCK_CATEGORIES by the type, without a runtime import
+const ALL_CATEGORIES: RestockCategory[] = ['seeds', 'gear', 'eggs', 'cosmetics', 'events'];
+// The Discord feeds do not post the event shop
+const DISCORD_CATEGORIES: RestockCategory[] = ['seeds', 'gear', 'eggs', 'cosmetics'];
+
+// Used when no configuration file exists
+const DEFAULT_SOURCE_CONFIG: StockSourceConfig[] = [
+  { name: 'gagpro', enabled: true, priority: 0, maxDelayMinutes: 2, minUpdateIntervalMinutes: 1, categories: ALL_CATEGORIES },
+  { name: 'websocket', enabled: false, priority: 1, maxDelayMinutes: 2, minUpdateIntervalMinutes: 1, categories: ALL_CATEGORIES },
+  { name: 'cactus', enabled: true, priority: 2, maxDelayMinutes: 2, minUpdateIntervalMinutes: 2, categories: DISCORD_CATEGORIES },
+  { name: 'vulcan', enabled: true, priority: 3, maxDelayMinutes: 2, minUpdateIntervalMinutes: 5, categories: DISCORD_CATEGORIES }
+];
+
+function parseCategories(value: unknown): RestockCategory[] | undefined {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+  return ALL_CATEGORIES.filter(category => value.includes(category));
+}
+
+/**
+ * Read stock-sources.json (or the file named by STOCK_SOURCES_CONFIG).
+ * Returns every configured source, enabled or not. Has no runtime imports
+ * so API routes can list sources without loading the feed implementations.
+ */
+export function loadStockSourceConfig(): StockSourceConfig[] {
+  const configPath = path.resolve(process.cwd(), process.env.STOCK_SOURCES_CONFIG || 'stock-sources.json');
+  try {
+    if (fs.existsSync(configPath)) {
+      const parsed = JSON.parse(fs.readFileSync(configPath, 'utf-8')) as { sources?: Partial<StockSourceConfig>[] };
+      if (Array.isArray(parsed.sources)) {
+        // Fill in missing fields from the defaults so partial entries still work
+        return parsed.sources
+          .filter((entry): entry is Partial<StockSourceConfig> & { name: string } => typeof entry.name === 'string')
+          .map((entry, index) => {
+            const defaults = DEFAULT_SOURCE_CONFIG.find(d => d.name === entry.name);
+            return {
+              name: entry.name,
+              enabled: entry.enabled ?? true,
+              priority: entry.priority ?? defaults?.priority ?? index,
+              maxDelayMinutes: entry.maxDelayMinutes ?? defaults?.maxDelayMinutes ?? 2,
+              minUpdateIntervalMinutes: entry.minUpdateIntervalMinutes ?? defaults?.minUpdateIntervalMinutes ?? 1,
+              categories: parseCategories(entry.categories) ?? defaults?.categories ?? ALL_CATEGORIES
+            };
+          });
+      }
+      console.error(`❌ ${configPath} has no "sources" array, using default stock sources`);
+    }
+  } catch (error) {
+    console.error('❌ Error loading stock source configuration, using defaults:', error);
+  }
+  return DEFAULT_SOURCE_CONFIG;
+}
@@ -0,0 +1,149 @@
+import { loadStockSourceConfig } from './stock-source-config.js';
+import type { Client } from 'discord.js';
+import type { RestockCategory } from './restock-schedule.js';
+import type { SourceConnectionStats, StockSource, StockSourceConfig, StockSourceName, StockSourceThresholds } from './stock-source.js';
+
+// Anything that can be started and stopped, e.g. a WebSocket listener or a Discord client
+interface SourceConnection {
+  start(): void | Promise<void>;
+  stop(): void | Promise<void>;
+  getConnectionStats(): SourceConnectionStats;
+}
+
+interface SourceDriver {
+  label: string;
+  // Loaded lazily so disabled feeds are never imported
+  load(): Promise<SourceConnection>;
+}
+
+// Wraps a Discord listener initializer so it can be stopped like the WebSocket listeners
+function discordConnection(initialize: () => Client | null): SourceConnection {
+  let client: Client | null = null;
+  let totalReconnects = 0;
+  let reconnectAttempts = 0;
+  return {
+    start() {
+      client = initialize();
+      // discord.js reconnects on its own, only count the attempts
+      client?.on('shardReconnecting', () => {
+        totalReconnects++;
+        reconnectAttempts++;
+      });
+      client?.on('shardResume', () => {
+        reconnectAttempts = 0;
+      });
+    },
+    async stop() {
+      await client?.destroy();
+      client = null;
+    },
+    getConnectionStats() {
+      return { connected: client?.isReady() ?? false, reconnectAttempts, totalReconnects };
+    }
+  };
+}
+
+// Known feed implementations, keyed by the name used in the configuration file.
+// Adding a feed means adding a driver here and an entry in stock-sources.json.
+const SOURCE_DRIVERS: Record<StockSourceName, SourceDriver> = {
+  gagpro: {
+    label: 'GrowAGardenPro WebSocket',
+    load: async () => (await import('./growagardenpro-websocket.js')).growAGardenProWebSocket
+  },
+  websocket: {
+    label: 'JStudio WebSocket',
+    load: async () => (await import('./jstudio-websocket.js')).jstudioWebSocket
+  },
+  cactus: {
+    label: 'Cactus Discord',
+    load: async () => discordConnection((await import('./discord-listener.js')).initializeDiscordListener)
+  },
+  vulcan: {
+    label: 'Vulcan Discord',
+    load: async () => discordConnection((await import('./discord-listener-vulcan.js')).initializeDiscordListener)
+  }
+};
+
+class ConfiguredStockSource implements StockSource {
+  readonly label: string;
+  readonly priority: number;
+  readonly thresholds: StockSourceThresholds;
+  readonly categories: RestockCategory[];
+  private connection: SourceConnection | null = null;
+
+  constructor(readonly name: StockSourceName, private driver: SourceDriver, config: StockSourceConfig) {
+    this.label = driver.label;
+    this.priority = config.priority;
+    this.thresholds = {
+      maxDelayMinutes: config.maxDelayMinutes,
+      minUpdateIntervalMinutes: config.minUpdateIntervalMinutes
+    };
+    this.categories = config.categories;
+  }
+
+  async start() {
+    if (!this.connection) {
+      this.connection = await this.driver.load();
+    }
+    await this.connection.start();
+  }
+
+  async stop() {
+    if (this.connection) {
+      await this.connection.stop();
+    }
+  }
+
+  getConnectionStats(): SourceConnectionStats | null {
+    return this.connection ? this.connection.getConnectionStats() : null;
+  }
+}
+
+class StockSourceRegistry {
+  private sources: StockSource[] = [];
+  private loaded = false;
+
+  /**
+   * Load enabled sources from stock-sources.json (or STOCK_SOURCES_CONFIG),
+   * sorted by priority. Safe to call more than once.
+   */
+  load(): StockSource[] {
+    if (this.loaded) {
+      return this.sources;
+    }
+
+    this.sources = loadStockSourceConfig()
+      .filter(config => {
+        if (!config.enabled) {
+          console.log(`⏸️ Stock source ${config.name} is disabled in configuration`);
+          return false;
+        }
+        // Names come from the config file, so inherited keys like "toString" must not match
+        if (!Object.hasOwn(SOURCE_DRIVERS, config.name)) {
+          console.error(`❌ Unknown stock source in configuration: ${config.name}`);
+          return false;
+        }
+        return true;
+      })
+      .map(config => new ConfiguredStockSource(config.name, SOURCE_DRIVERS[config.name], config))
+      .sort((a, b) => a.priority - b.priority);
+
+    this.loaded = true;
+    console.log(`📋 Stock sources: ${this.sources.map(s => `${s.name} (priority ${s.priority})`).join(', ')}`);
+    return this.sources;
+  }
+
+  getAll(): StockSource[] {
+    return this.load();
+  }
+
+  get(name: StockSourceName): StockSource | undefined {
+    return this.load().find(source => source.name === name);
+  }
+
+  has(name: StockSourceName): boolean {
+    return this.get(name) !== undefined;
+  }
+}
+
+export const stockSourceRegistry = new StockSourceRegistry();
@@ -0,0 +1,36 @@
+// Shared types for stock feeds. Type-only so the Next.js side can import it too.
+
+import type { RestockCategory } from './restock-schedule.js';
+
+// Sources are identified by the name in their configuration entry (e.g. 'gagpro', 'cactus')
+export type StockSourceName = string;
+
+export interface StockSourceThresholds {
+  maxDelayMinutes: number; // Considered offline after this long without a message
+  minUpdateIntervalMinutes: number; // Minimum spacing between accepted weather/merchant updates
+}
+
+export interface SourceConnectionStats {
+  connected: boolean;
+  reconnectAttempts: number; // Attempts since the last successful connection
+  totalReconnects: number; // Reconnects since the source was started
+}
+
+export interface StockSource {
+  readonly name: StockSourceName;
+  readonly label: string;
+  readonly priority: number; // Lower number = higher priority
+  readonly thresholds: StockSourceThresholds;
+  readonly categories: RestockCategory[]; // Shop categories the feed reports
+  start(): Promise<void>;
+  stop(): Promise<void>;
+  getConnectionStats(): SourceConnectionStats | null; // null until started
+}
+
+// One entry of stock-sources.json
+export interface StockSourceConfig extends StockSourceThresholds {
+  name: StockSourceName;
+  enabled: boolean;
+  priority: number;
+  categories: RestockCategory[];
+}
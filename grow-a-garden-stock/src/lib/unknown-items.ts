@@ -0,0 +1,50 @@
+import database from './database.js';
+import { itemCatalog } from './item-catalog.js';
+import type { StockSourceName } from './stock-source.js';
+
+/**
+ * Records items sources report that the item catalog does not know yet, so
+ * they can be reviewed and approved through /api/pending-items instead of
+ * silently being treated as Common.
+ */
+class UnknownItemTracker {
+  // Logged once per process, the database keeps counting every sighting
+  private logged: Set<string> = new Set();
+
+  recordReport(source: StockSourceName, category: string, items: Array<{ id: string; name: string; quantity: number }>, timestamp: number) {
+    // Only categories with per-item notifications list their items in the catalog
+    const catalogCategory = itemCatalog.getCategories().find(c => c.id === category);
+    if (catalogCategory?.notificationType !== 'item') {
+      return;
+    }
+
+    const seenAt = new Date(timestamp).toISOString();
+    for (const item of items) {
+      if (itemCatalog.findItem(item.id) || itemCatalog.findItem(item.name)) {
+        continue;
+      }
+
+      if (!this.logged.has(item.id)) {
+        this.logged.add(item.id);
+        console.log(`🆕 Unknown ${category} item "${item.name}" (${item.id}) reported by ${source} - recorded for review`);
+      }
+
+      // Fire and forget - discovery must never block stock updates
+      database.initialize()
+        .then(() => database.recordPendingItem({
+          item_id: item.id,
+          name: item.name,
+          category,
+          source,
+          sample_quantity: item.quantity,
+          first_seen: seenAt,
+          last_seen: seenAt
+        }))
+        .catch(error => {
+          console.error(`❌ Error recording unknown item ${item.id}:`, error);
+        });
+    }
+  }
+}
+
+export const unknownItemTracker = new UnknownItemTracker();
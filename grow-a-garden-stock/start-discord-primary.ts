@@ -1,3 +1,5 @@
+// Must stay the first import, see load-env.ts
+import './src/lib/load-env.js';
 import { initializeDiscordListener } from './src/lib/discord-listener.js';
 
 console.log('🚀 Starting Grow A Garden Stock - Discord Primary');
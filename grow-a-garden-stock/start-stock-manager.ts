@@ -1,4 +1,8 @@
+// Must stay the first import, see load-env.ts
+import './src/lib/load-env.js';
 import { stockManager } from './src/lib/stock-manager.js';
+import { stockBroadcastServer } from './src/lib/stock-broadcast-server.js';
+import { sourceRecorder } from './src/lib/source-recorder.js';
 
 console.log('🚀 Starting Grow A Garden Stock - Multi-Source Stock Manager');
 console.log('📡 Coordinating JStudio WebSocket, Cactus Discord, and Vulcan Discord');
@@ -10,11 +14,15 @@ async function startStockManager() {
   try {
     console.log('🔗 Starting multi-source coordination...');
     await stockManager.start();
+
+    // Public WebSocket feed for third-party clients
+    stockBroadcastServer.start();
     
     console.log('');
     console.log('✅ Stock Manager started successfully!');
     console.log('📊 Multi-source coordination is now active');
     console.log('🌐 API endpoint: http://103.45.246.244:3000/api/stock');
+    console.log(`📡 Broadcast WebSocket: ws://103.45.246.244:${process.env.STOCK_BROADCAST_PORT || '3001'}`);
     console.log('');
     console.log('💡 The Stock Manager will automatically:');
     console.log('   • Prioritize JStudio WebSocket as primary source (99% uptime)');
@@ -40,14 +48,18 @@ async function startStockManager() {
 // Handle graceful shutdown
 process.on('SIGINT', () => {
   console.log('\n🛑 Shutting down Stock Manager...');
+  stockBroadcastServer.stop();
   stockManager.stop();
+  sourceRecorder.close();
   console.log('✅ Stock Manager stopped');
   process.exit(0);
 });
 
 process.on('SIGTERM', () => {
   console.log('\n🛑 Shutting down Stock Manager...');
+  stockBroadcastServer.stop();
   stockManager.stop();
+  sourceRecorder.close();
   console.log('✅ Stock Manager stopped');
   process.exit(0);
 });
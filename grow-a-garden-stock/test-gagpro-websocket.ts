@@ -1,6 +1,6 @@
 import { WebSocket } from 'ws';
 
-const wsUrl = 'wss://ws.growagardenpro.com/';
+const wsUrl = process.env.GAGPRO_WS_URL || 'wss://ws.growagardenpro.com/';
 
 console.log('🔗 Connecting to GrowAGardenPro WebSocket:', wsUrl);
 console.log('📋 Waiting for messages...\n');